@@ -0,0 +1,21 @@
+<?xml version="1.0" encoding="UTF-8"?>
+<!--
+    Identity transform over examples/sample.xml. Keeps every book's id
+    attribute while renaming price to cost; traced runs must keep the
+    attributes too (tracing markers are never placed before an attribute copy).
+-->
+<xsl:stylesheet version="1.0" xmlns:xsl="http://www.w3.org/1999/XSL/Transform">
+    <xsl:output method="xml" indent="yes"/>
+
+    <xsl:template match="@*|node()">
+        <xsl:copy>
+            <xsl:apply-templates select="@*|node()"/>
+        </xsl:copy>
+    </xsl:template>
+
+    <xsl:template match="price">
+        <cost currency="USD">
+            <xsl:apply-templates select="@*|node()"/>
+        </cost>
+    </xsl:template>
+</xsl:stylesheet>
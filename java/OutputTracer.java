@@ -0,0 +1,287 @@
+import net.sf.saxon.Controller;
+import net.sf.saxon.event.PipelineConfiguration;
+import net.sf.saxon.event.ProxyReceiver;
+import net.sf.saxon.event.Receiver;
+import net.sf.saxon.expr.XPathContext;
+import net.sf.saxon.lib.Logger;
+import net.sf.saxon.lib.TraceListener;
+import net.sf.saxon.om.AttributeMap;
+import net.sf.saxon.om.AxisInfo;
+import net.sf.saxon.om.Item;
+import net.sf.saxon.om.NamespaceMap;
+import net.sf.saxon.om.NodeInfo;
+import net.sf.saxon.om.NodeName;
+import net.sf.saxon.s9api.AbstractDestination;
+import net.sf.saxon.s9api.Location;
+import net.sf.saxon.s9api.Processor;
+import net.sf.saxon.s9api.SaxonApiException;
+import net.sf.saxon.s9api.Serializer;
+import net.sf.saxon.s9api.Xslt30Transformer;
+import net.sf.saxon.s9api.XsltCompiler;
+import net.sf.saxon.s9api.XsltExecutable;
+import net.sf.saxon.serialize.SerializationProperties;
+import net.sf.saxon.trace.Traceable;
+import net.sf.saxon.trans.XPathException;
+import net.sf.saxon.tree.iter.AxisIterator;
+import net.sf.saxon.type.SchemaType;
+import net.sf.saxon.type.Type;
+
+import javax.xml.transform.stream.StreamSource;
+import java.io.File;
+import java.io.FileOutputStream;
+import java.io.OutputStreamWriter;
+import java.io.PrintStream;
+import java.io.StringWriter;
+import java.io.Writer;
+import java.net.URI;
+import java.nio.charset.StandardCharsets;
+import java.util.ArrayDeque;
+import java.util.ArrayList;
+import java.util.Deque;
+import java.util.HashMap;
+import java.util.LinkedHashMap;
+import java.util.List;
+import java.util.Map;
+
+/**
+ * Runs a transform with a Saxon TraceListener and records, for every element
+ * and text node written to the principal output, the stylesheet instruction
+ * that was executing (module, line, column) and the context node it ran on.
+ * Unlike comment markers this sees output from xsl:copy-of, xsl:sequence and
+ * functions, and leaves the output untouched.
+ *
+ * Each entry is a JSON object:
+ *   {"path":"/Q{urn:...}Invoice[1]/Q{urn:...}ID[1]","name":"cbc:ID","module":"/x/main.xsl",
+ *    "line":12,"column":9,"context":"/Q{}Order[1]/Q{}Number[1]"}
+ * Text nodes have paths ending in text()[n] and name "#text"; context is null
+ * when the context item is not a node.
+ *
+ * The stylesheet must be compiled with XsltCompiler.setCompileWithTracing(true).
+ * Used by ValidatorDaemon ("traceTransform") and standalone:
+ *   java -cp saxon-he.jar:classes OutputTracer source.xml style.xsl output.xml
+ * which writes the output to output.xml and one entry per line to stdout.
+ */
+public class OutputTracer {
+    private final List<Map<String, Object>> entries = new ArrayList<Map<String, Object>>();
+    private final Deque<Traceable> instructions = new ArrayDeque<Traceable>();
+    private final Deque<Item> contextItems = new ArrayDeque<Item>();
+
+    /** Result of a traced transform */
+    public static final class Result {
+        public final String output;
+        public final List<Map<String, Object>> entries;
+
+        Result(String output, List<Map<String, Object>> entries) {
+            this.output = output;
+            this.entries = entries;
+        }
+    }
+
+    public static Result transform(Processor processor, XsltExecutable executable, File source) throws SaxonApiException {
+        final OutputTracer tracer = new OutputTracer();
+        Xslt30Transformer transformer = executable.load30();
+        transformer.setTraceListener(tracer.listener());
+
+        StringWriter writer = new StringWriter();
+        final Serializer serializer = processor.newSerializer(writer);
+        transformer.transform(new StreamSource(source), new AbstractDestination() {
+            @Override
+            public Receiver getReceiver(PipelineConfiguration pipe, SerializationProperties params) throws SaxonApiException {
+                return tracer.new Recorder(serializer.getReceiver(pipe, params));
+            }
+
+            @Override
+            public void close() throws SaxonApiException {
+                serializer.close();
+            }
+        });
+        return new Result(writer.toString(), tracer.entries);
+    }
+
+    public static void main(String[] args) throws Exception {
+        if (args.length < 3) {
+            System.err.println("Usage: OutputTracer <source.xml> <stylesheet.xsl> <output.xml>");
+            System.exit(2);
+        }
+        Processor processor = new Processor(false);
+        XsltCompiler compiler = processor.newXsltCompiler();
+        compiler.setCompileWithTracing(true);
+        XsltExecutable executable = compiler.compile(new StreamSource(new File(args[1])));
+        Result result = transform(processor, executable, new File(args[0]));
+
+        Writer output = new OutputStreamWriter(new FileOutputStream(args[2]), StandardCharsets.UTF_8);
+        try {
+            output.write(result.output);
+        } finally {
+            output.close();
+        }
+        PrintStream out = new PrintStream(System.out, false, "UTF-8");
+        for (Map<String, Object> entry : result.entries) {
+            out.println(ValidatorDaemon.Json.stringify(entry));
+        }
+        out.flush();
+    }
+
+    private TraceListener listener() {
+        return new TraceListener() {
+            @Override
+            public void setOutputDestination(Logger stream) {
+            }
+
+            @Override
+            public void open(Controller controller) {
+            }
+
+            @Override
+            public void close() {
+            }
+
+            @Override
+            public void enter(Traceable instruction, Map<String, Object> properties, XPathContext context) {
+                instructions.push(instruction);
+            }
+
+            @Override
+            public void leave(Traceable instruction) {
+                instructions.poll();
+            }
+
+            @Override
+            public void startCurrentItem(Item currentItem) {
+                contextItems.push(currentItem);
+            }
+
+            @Override
+            public void endCurrentItem(Item currentItem) {
+                contextItems.poll();
+            }
+        };
+    }
+
+    /** Innermost executing instruction that has a position in a stylesheet module */
+    private Location currentLocation() {
+        for (Traceable instruction : instructions) {
+            Location location = instruction.getLocation();
+            if (location != null && location.getSystemId() != null && location.getLineNumber() > 0) {
+                return location;
+            }
+        }
+        return null;
+    }
+
+    private void record(String path, String name) {
+        Map<String, Object> entry = new LinkedHashMap<String, Object>();
+        Location location = currentLocation();
+        entry.put("path", path);
+        entry.put("name", name);
+        entry.put("module", location != null ? modulePath(location.getSystemId()) : null);
+        entry.put("line", location != null ? location.getLineNumber() : null);
+        entry.put("column", location != null ? location.getColumnNumber() : null);
+        Item context = contextItems.peek();
+        entry.put("context", context instanceof NodeInfo ? nodePath((NodeInfo) context) : null);
+        entries.add(entry);
+    }
+
+    private static String modulePath(String systemId) {
+        try {
+            URI uri = new URI(systemId);
+            if ("file".equals(uri.getScheme())) {
+                return new File(uri).getPath();
+            }
+        } catch (Exception e) {
+            // Not a file URI; report it as is
+        }
+        return systemId;
+    }
+
+    /** Path of a source node in the same Q{uri}local[n] form as output paths */
+    static String nodePath(NodeInfo node) {
+        NodeInfo parent = node.getParent();
+        switch (node.getNodeKind()) {
+            case Type.DOCUMENT:
+                return "";
+            case Type.ELEMENT:
+                return nodePath(parent) + "/Q{" + node.getURI() + "}" + node.getLocalPart() + "[" + position(node) + "]";
+            case Type.ATTRIBUTE:
+                return nodePath(parent) + "/@" + node.getLocalPart();
+            case Type.TEXT:
+                return nodePath(parent) + "/text()[" + position(node) + "]";
+            default:
+                return parent != null ? nodePath(parent) : "";
+        }
+    }
+
+    /** 1-based position among preceding siblings of the same kind and name */
+    private static int position(NodeInfo node) {
+        NodeInfo parent = node.getParent();
+        if (parent == null) {
+            return 1;
+        }
+        int position = 0;
+        AxisIterator children = parent.iterateAxis(AxisInfo.CHILD);
+        NodeInfo child;
+        while ((child = children.next()) != null) {
+            if (child.getNodeKind() == node.getNodeKind()
+                    && child.getURI().equals(node.getURI())
+                    && child.getLocalPart().equals(node.getLocalPart())) {
+                position++;
+            }
+            if (child.equals(node)) {
+                break;
+            }
+        }
+        return position;
+    }
+
+    /** Tracks the path of each node on its way to the serializer */
+    private final class Recorder extends ProxyReceiver {
+        /** Per open element (and the document level): sibling counts by expanded name, and the element's path */
+        private final Deque<Map<String, Integer>> siblings = new ArrayDeque<Map<String, Integer>>();
+        private final Deque<String> paths = new ArrayDeque<String>();
+        private boolean inText;
+
+        Recorder(Receiver next) {
+            super(next);
+            siblings.push(new HashMap<String, Integer>());
+            paths.push("");
+        }
+
+        @Override
+        public void startElement(NodeName elemName, SchemaType type, AttributeMap attributes,
+                                 NamespaceMap namespaces, Location location, int properties) throws XPathException {
+            String step = "Q{" + elemName.getURI() + "}" + elemName.getLocalPart();
+            String path = paths.peek() + "/" + step + "[" + count(step) + "]";
+            record(path, elemName.getDisplayName());
+            siblings.push(new HashMap<String, Integer>());
+            paths.push(path);
+            inText = false;
+            super.startElement(elemName, type, attributes, namespaces, location, properties);
+        }
+
+        @Override
+        public void endElement() throws XPathException {
+            siblings.pop();
+            paths.pop();
+            inText = false;
+            super.endElement();
+        }
+
+        @Override
+        public void characters(CharSequence chars, Location locationId, int properties) throws XPathException {
+            // Adjacent character events form one text node
+            if (!inText && chars.length() > 0) {
+                inText = true;
+                record(paths.peek() + "/text()[" + count("text()") + "]", "#text");
+            }
+            super.characters(chars, locationId, properties);
+        }
+
+        private int count(String step) {
+            Map<String, Integer> counts = siblings.peek();
+            Integer previous = counts.get(step);
+            int n = previous == null ? 1 : previous + 1;
+            counts.put(step, n);
+            return n;
+        }
+    }
+}
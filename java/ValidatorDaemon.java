@@ -0,0 +1,522 @@
+import net.sf.saxon.s9api.Processor;
+import net.sf.saxon.s9api.SaxonApiException;
+import net.sf.saxon.s9api.Serializer;
+import net.sf.saxon.s9api.Xslt30Transformer;
+import net.sf.saxon.s9api.XsltCompiler;
+import net.sf.saxon.s9api.XsltExecutable;
+import org.w3c.dom.ls.LSInput;
+import org.w3c.dom.ls.LSResourceResolver;
+import org.xml.sax.ErrorHandler;
+import org.xml.sax.SAXParseException;
+
+import javax.xml.XMLConstants;
+import javax.xml.transform.Source;
+import javax.xml.transform.TransformerException;
+import javax.xml.transform.URIResolver;
+import javax.xml.transform.stream.StreamSource;
+import javax.xml.validation.Schema;
+import javax.xml.validation.SchemaFactory;
+import javax.xml.validation.Validator;
+import java.io.BufferedReader;
+import java.io.File;
+import java.io.InputStreamReader;
+import java.io.PrintStream;
+import java.io.StringWriter;
+import java.net.URI;
+import java.nio.charset.StandardCharsets;
+import java.util.ArrayList;
+import java.util.HashMap;
+import java.util.LinkedHashMap;
+import java.util.List;
+import java.util.Map;
+import java.util.concurrent.ExecutorService;
+import java.util.concurrent.Executors;
+
+/**
+ * Long-lived helper that keeps compiled stylesheets and parsed XSD schemas
+ * in memory, so validation doesn't pay JVM startup and Schematron compilation
+ * on every call.
+ *
+ * Protocol: one JSON object per line on stdin, one per line on stdout.
+ *   {"id":1,"method":"transform","params":{"source":"in.xml","xslt":"style.xsl"}}
+ *     -> {"id":1,"result":{"output":"..."}}
+ *   {"id":2,"method":"validateXsd","params":{"schema":"a.xsd","xml":"doc.xml"}}
+ *     -> {"id":2,"result":{"valid":false,"errors":"doc.xml:3: element: Schemas validity error : ..."}}
+ *   {"id":3,"method":"ping"} -> {"id":3,"result":{}}
+ *   {"id":4,"method":"traceTransform","params":{"source":"in.xml","xslt":"style.xsl"}}
+ *     -> {"id":4,"result":{"output":"...","trace":[...]}} (entries as described in OutputTracer)
+ * Failures are returned as {"id":n,"error":{"message":"..."}}; a transform that
+ * fails after writing output adds it as "output", like Saxon's stdout on a CLI run.
+ * XSD errors use the same xmllint-compatible format as XsdValidator.
+ *
+ * Usage: java -cp saxon-he.jar:classes ValidatorDaemon [threads]
+ */
+public class ValidatorDaemon {
+    private static final int CACHE_SIZE = 32;
+
+    private static final Processor processor = new Processor(false);
+    private static final Map<String, CachedEntry<XsltExecutable>> stylesheets = lruMap();
+    private static final Map<String, CachedEntry<Schema>> schemas = lruMap();
+    private static PrintStream out;
+
+    /** A failed transform together with whatever was serialized before the failure */
+    private static class TransformFailure extends Exception {
+        final String output;
+
+        TransformFailure(SaxonApiException cause, String output) {
+            super(cause.getMessage(), cause);
+            this.output = output;
+        }
+    }
+
+    /** Cached value plus the modification times of every file it was built from */
+    private static class CachedEntry<T> {
+        final T value;
+        final Map<File, Long> dependencies;
+
+        CachedEntry(T value, Map<File, Long> dependencies) {
+            this.value = value;
+            this.dependencies = dependencies;
+        }
+
+        boolean isFresh() {
+            for (Map.Entry<File, Long> dep : dependencies.entrySet()) {
+                if (dep.getKey().lastModified() != dep.getValue()) {
+                    return false;
+                }
+            }
+            return true;
+        }
+    }
+
+    private static <T> Map<String, CachedEntry<T>> lruMap() {
+        return new LinkedHashMap<String, CachedEntry<T>>(16, 0.75f, true) {
+            @Override
+            protected boolean removeEldestEntry(Map.Entry<String, CachedEntry<T>> eldest) {
+                return size() > CACHE_SIZE;
+            }
+        };
+    }
+
+    public static void main(String[] args) throws Exception {
+        int threads = args.length > 0 ? Integer.parseInt(args[0]) : 4;
+        out = new PrintStream(System.out, false, "UTF-8");
+        // Anything else written to stdout would corrupt the protocol
+        System.setOut(System.err);
+
+        ExecutorService pool = Executors.newFixedThreadPool(threads);
+        BufferedReader in = new BufferedReader(new InputStreamReader(System.in, StandardCharsets.UTF_8));
+        String line;
+        while ((line = in.readLine()) != null) {
+            if (line.trim().isEmpty()) {
+                continue;
+            }
+            final String request = line;
+            pool.submit(new Runnable() {
+                @Override
+                public void run() {
+                    handle(request);
+                }
+            });
+        }
+        // stdin closed: the extension is gone
+        pool.shutdown();
+    }
+
+    private static void handle(String line) {
+        Object id = null;
+        try {
+            Map<String, Object> request = Json.parseObject(line);
+            id = request.get("id");
+            String method = (String) request.get("method");
+            @SuppressWarnings("unchecked")
+            Map<String, Object> params = request.get("params") instanceof Map
+                    ? (Map<String, Object>) request.get("params")
+                    : new HashMap<String, Object>();
+
+            Map<String, Object> result = new LinkedHashMap<String, Object>();
+            if ("transform".equals(method)) {
+                result.put("output", transform(stringParam(params, "source"), stringParam(params, "xslt")));
+            } else if ("traceTransform".equals(method)) {
+                OutputTracer.Result traced = OutputTracer.transform(processor,
+                        getStylesheet(new File(stringParam(params, "xslt")), true),
+                        new File(stringParam(params, "source")));
+                result.put("output", traced.output);
+                result.put("trace", traced.entries);
+            } else if ("validateXsd".equals(method)) {
+                StringBuilder errors = new StringBuilder();
+                boolean valid = validateXsd(stringParam(params, "schema"), stringParam(params, "xml"), errors);
+                result.put("valid", valid);
+                result.put("errors", errors.toString());
+            } else if (!"ping".equals(method)) {
+                throw new IllegalArgumentException("Unknown method: " + method);
+            }
+            respond(id, "result", result);
+        } catch (Throwable e) {
+            Map<String, Object> error = new LinkedHashMap<String, Object>();
+            error.put("message", e.getMessage() != null ? e.getMessage() : e.toString());
+            if (e instanceof TransformFailure && !((TransformFailure) e).output.isEmpty()) {
+                error.put("output", ((TransformFailure) e).output);
+            }
+            respond(id, "error", error);
+        }
+    }
+
+    private static String stringParam(Map<String, Object> params, String name) {
+        Object value = params.get(name);
+        if (!(value instanceof String)) {
+            throw new IllegalArgumentException("Missing parameter: " + name);
+        }
+        return (String) value;
+    }
+
+    private static void respond(Object id, String key, Map<String, Object> payload) {
+        Map<String, Object> response = new LinkedHashMap<String, Object>();
+        response.put("id", id);
+        response.put(key, payload);
+        String json = Json.stringify(response);
+        synchronized (out) {
+            out.println(json);
+            out.flush();
+        }
+    }
+
+    private static String transform(String sourcePath, String xsltPath) throws SaxonApiException, TransformFailure {
+        XsltExecutable executable = getStylesheet(new File(xsltPath), false);
+        Xslt30Transformer transformer = executable.load30();
+        StringWriter writer = new StringWriter();
+        Serializer serializer = transformer.newSerializer(writer);
+        try {
+            transformer.transform(new StreamSource(new File(sourcePath)), serializer);
+        } catch (SaxonApiException e) {
+            throw new TransformFailure(e, writer.toString());
+        }
+        return writer.toString();
+    }
+
+    /** Traced compilations (for OutputTracer) are cached separately; tracing slows execution */
+    private static XsltExecutable getStylesheet(File xsltFile, boolean tracing) throws SaxonApiException {
+        String key = (tracing ? "trace:" : "") + xsltFile.getAbsolutePath();
+        synchronized (stylesheets) {
+            CachedEntry<XsltExecutable> cached = stylesheets.get(key);
+            if (cached != null && cached.isFresh()) {
+                return cached.value;
+            }
+        }
+
+        // Record every xsl:include/xsl:import module so edits to them invalidate the cache
+        final Map<File, Long> dependencies = new HashMap<File, Long>();
+        dependencies.put(xsltFile, xsltFile.lastModified());
+        XsltCompiler compiler = processor.newXsltCompiler();
+        compiler.setCompileWithTracing(tracing);
+        compiler.setURIResolver(new URIResolver() {
+            @Override
+            public Source resolve(String href, String base) throws TransformerException {
+                try {
+                    URI uri = base != null ? new URI(base).resolve(href) : new URI(href);
+                    if ("file".equals(uri.getScheme())) {
+                        File module = new File(uri);
+                        synchronized (dependencies) {
+                            dependencies.put(module, module.lastModified());
+                        }
+                    }
+                } catch (Exception e) {
+                    // Not a file URI we can watch; fall through to default resolution
+                }
+                return null;
+            }
+        });
+
+        XsltExecutable executable = compiler.compile(new StreamSource(xsltFile));
+        synchronized (stylesheets) {
+            stylesheets.put(key, new CachedEntry<XsltExecutable>(executable, dependencies));
+        }
+        return executable;
+    }
+
+    /** Returns false on errors; warnings are reported but don't fail, as in XsdValidator */
+    private static boolean validateXsd(String schemaPath, String xmlPath, final StringBuilder errors) throws Exception {
+        Schema schema = getSchema(new File(schemaPath));
+        final File xmlFile = new File(xmlPath);
+        final boolean[] hasErrors = {false};
+
+        Validator validator = schema.newValidator();
+        validator.setErrorHandler(new ErrorHandler() {
+            @Override
+            public void warning(SAXParseException e) {
+                appendError(errors, xmlFile.getPath(), e);
+            }
+
+            @Override
+            public void error(SAXParseException e) {
+                hasErrors[0] = true;
+                appendError(errors, xmlFile.getPath(), e);
+            }
+
+            @Override
+            public void fatalError(SAXParseException e) {
+                hasErrors[0] = true;
+                appendError(errors, xmlFile.getPath(), e);
+            }
+        });
+
+        try {
+            validator.validate(new StreamSource(xmlFile));
+        } catch (SAXParseException e) {
+            // Already reported through the error handler
+        }
+        return !hasErrors[0];
+    }
+
+    private static void appendError(StringBuilder errors, String filePath, SAXParseException e) {
+        errors.append(filePath).append(':').append(e.getLineNumber())
+                .append(": element: Schemas validity error : ").append(e.getMessage()).append('\n');
+    }
+
+    private static Schema getSchema(File schemaFile) throws Exception {
+        String key = schemaFile.getAbsolutePath();
+        synchronized (schemas) {
+            CachedEntry<Schema> cached = schemas.get(key);
+            if (cached != null && cached.isFresh()) {
+                return cached.value;
+            }
+        }
+
+        // Record every xs:include/xs:import/xs:redefine so edits to them invalidate the cache
+        final Map<File, Long> dependencies = new HashMap<File, Long>();
+        dependencies.put(schemaFile, schemaFile.lastModified());
+        SchemaFactory factory = SchemaFactory.newInstance(XMLConstants.W3C_XML_SCHEMA_NS_URI);
+        factory.setResourceResolver(new LSResourceResolver() {
+            @Override
+            public LSInput resolveResource(String type, String namespaceURI, String publicId, String systemId, String baseURI) {
+                if (systemId == null) {
+                    return null;
+                }
+                try {
+                    URI uri = baseURI != null ? new URI(baseURI).resolve(systemId) : new URI(systemId);
+                    if ("file".equals(uri.getScheme())) {
+                        File module = new File(uri);
+                        synchronized (dependencies) {
+                            dependencies.put(module, module.lastModified());
+                        }
+                    }
+                } catch (Exception e) {
+                    // Not a file URI we can watch; fall through to default resolution
+                }
+                return null;
+            }
+        });
+        Schema schema = factory.newSchema(schemaFile);
+        synchronized (schemas) {
+            schemas.put(key, new CachedEntry<Schema>(schema, dependencies));
+        }
+        return schema;
+    }
+
+    /** Just enough JSON for the protocol: objects, arrays, strings, numbers, booleans and null */
+    static final class Json {
+        private final String text;
+        private int pos;
+
+        private Json(String text) {
+            this.text = text;
+        }
+
+        @SuppressWarnings("unchecked")
+        static Map<String, Object> parseObject(String text) {
+            Json parser = new Json(text);
+            Object value = parser.readValue();
+            if (!(value instanceof Map)) {
+                throw new IllegalArgumentException("Request must be a JSON object");
+            }
+            return (Map<String, Object>) value;
+        }
+
+        private Object readValue() {
+            skipSpace();
+            if (pos >= text.length()) {
+                throw new IllegalArgumentException("Unexpected end of JSON");
+            }
+            char c = text.charAt(pos);
+            if (c == '{') {
+                Map<String, Object> map = new LinkedHashMap<String, Object>();
+                pos++;
+                skipSpace();
+                if (peek() == '}') {
+                    pos++;
+                    return map;
+                }
+                while (true) {
+                    skipSpace();
+                    String key = readString();
+                    skipSpace();
+                    expect(':');
+                    map.put(key, readValue());
+                    skipSpace();
+                    if (peek() == ',') {
+                        pos++;
+                    } else {
+                        expect('}');
+                        return map;
+                    }
+                }
+            }
+            if (c == '[') {
+                List<Object> list = new ArrayList<Object>();
+                pos++;
+                skipSpace();
+                if (peek() == ']') {
+                    pos++;
+                    return list;
+                }
+                while (true) {
+                    list.add(readValue());
+                    skipSpace();
+                    if (peek() == ',') {
+                        pos++;
+                    } else {
+                        expect(']');
+                        return list;
+                    }
+                }
+            }
+            if (c == '"') {
+                return readString();
+            }
+            if (text.startsWith("true", pos)) {
+                pos += 4;
+                return Boolean.TRUE;
+            }
+            if (text.startsWith("false", pos)) {
+                pos += 5;
+                return Boolean.FALSE;
+            }
+            if (text.startsWith("null", pos)) {
+                pos += 4;
+                return null;
+            }
+            int start = pos;
+            while (pos < text.length() && "+-0123456789.eE".indexOf(text.charAt(pos)) >= 0) {
+                pos++;
+            }
+            if (start == pos) {
+                throw new IllegalArgumentException("Unexpected character '" + c + "' in JSON");
+            }
+            String number = text.substring(start, pos);
+            if (number.contains(".") || number.contains("e") || number.contains("E")) {
+                return Double.parseDouble(number);
+            }
+            return Long.parseLong(number);
+        }
+
+        private String readString() {
+            expect('"');
+            StringBuilder sb = new StringBuilder();
+            while (pos < text.length()) {
+                char c = text.charAt(pos++);
+                if (c == '"') {
+                    return sb.toString();
+                }
+                if (c != '\\') {
+                    sb.append(c);
+                    continue;
+                }
+                char esc = text.charAt(pos++);
+                switch (esc) {
+                    case 'n': sb.append('\n'); break;
+                    case 'r': sb.append('\r'); break;
+                    case 't': sb.append('\t'); break;
+                    case 'b': sb.append('\b'); break;
+                    case 'f': sb.append('\f'); break;
+                    case 'u':
+                        sb.append((char) Integer.parseInt(text.substring(pos, pos + 4), 16));
+                        pos += 4;
+                        break;
+                    default: sb.append(esc);
+                }
+            }
+            throw new IllegalArgumentException("Unterminated JSON string");
+        }
+
+        private char peek() {
+            return pos < text.length() ? text.charAt(pos) : '\0';
+        }
+
+        private void expect(char c) {
+            if (peek() != c) {
+                throw new IllegalArgumentException("Expected '" + c + "' in JSON at " + pos);
+            }
+            pos++;
+        }
+
+        private void skipSpace() {
+            while (pos < text.length() && Character.isWhitespace(text.charAt(pos))) {
+                pos++;
+            }
+        }
+
+        static String stringify(Object value) {
+            StringBuilder sb = new StringBuilder();
+            write(sb, value);
+            return sb.toString();
+        }
+
+        @SuppressWarnings("unchecked")
+        private static void write(StringBuilder sb, Object value) {
+            if (value == null) {
+                sb.append("null");
+            } else if (value instanceof String) {
+                writeString(sb, (String) value);
+            } else if (value instanceof Boolean || value instanceof Number) {
+                sb.append(value.toString());
+            } else if (value instanceof Map) {
+                sb.append('{');
+                boolean first = true;
+                for (Map.Entry<String, Object> entry : ((Map<String, Object>) value).entrySet()) {
+                    if (!first) {
+                        sb.append(',');
+                    }
+                    first = false;
+                    writeString(sb, entry.getKey());
+                    sb.append(':');
+                    write(sb, entry.getValue());
+                }
+                sb.append('}');
+            } else if (value instanceof List) {
+                sb.append('[');
+                boolean first = true;
+                for (Object item : (List<Object>) value) {
+                    if (!first) {
+                        sb.append(',');
+                    }
+                    first = false;
+                    write(sb, item);
+                }
+                sb.append(']');
+            } else {
+                writeString(sb, value.toString());
+            }
+        }
+
+        private static void writeString(StringBuilder sb, String s) {
+            sb.append('"');
+            for (int i = 0; i < s.length(); i++) {
+                char c = s.charAt(i);
+                switch (c) {
+                    case '"': sb.append("\\\""); break;
+                    case '\\': sb.append("\\\\"); break;
+                    case '\n': sb.append("\\n"); break;
+                    case '\r': sb.append("\\r"); break;
+                    case '\t': sb.append("\\t"); break;
+                    default:
+                        if (c < 0x20 || c == 0x2028 || c == 0x2029) {
+                            sb.append(String.format("\\u%04x", (int) c));
+                        } else {
+                            sb.append(c);
+                        }
+                }
+            }
+            sb.append('"');
+        }
+    }
+}
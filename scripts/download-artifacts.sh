@@ -1,6 +1,7 @@
 #!/usr/bin/env bash
-# Downloads UBL 2.1 XSD schemas and pre-compiled Schematron XSLT files
-# for EN16931 and Peppol BIS 3.0 validation.
+# Downloads UBL 2.1 and CII D16B XSD schemas and pre-compiled Schematron XSLT
+# files for EN16931 (UBL and CII), Peppol BIS 3.0 and the CIUS rulesets
+# (XRechnung, NLCIUS).
 #
 # Usage: ./scripts/download-artifacts.sh
 #
@@ -86,6 +87,47 @@ else
     echo "You may need to compile from .sch manually."
 fi
 
+# ─── EN16931 CII (UN/CEFACT Cross Industry Invoice D16B) ────────────
+
+echo ""
+echo "=== Downloading EN16931 CII Schematron (pre-compiled XSLT) ==="
+EN16931_CII_URL="https://github.com/ConnectingEurope/eInvoicing-EN16931/releases/download/validation-$EN16931_VERSION/en16931-cii-$EN16931_VERSION.zip"
+echo "Source: $EN16931_CII_URL (version $EN16931_VERSION)"
+if "$CURL" "${CURL_OPTS[@]}" -o "$TEMP_DIR/en16931-cii.zip" "$EN16931_CII_URL"; then
+    unzip -q "$TEMP_DIR/en16931-cii.zip" -d "$TEMP_DIR/en16931-cii" || true
+    EN16931_CII_XSLT=$(find "$TEMP_DIR/en16931-cii" -name "*.xslt" -o -name "*.xsl" | head -1)
+    if [ -n "$EN16931_CII_XSLT" ]; then
+        mkdir -p "$ARTIFACTS_DIR/schematron/en16931-cii"
+        cp "$EN16931_CII_XSLT" "$ARTIFACTS_DIR/schematron/en16931-cii/EN16931-CII-validation.xslt"
+        echo "EN16931 CII XSLT installed."
+    else
+        echo "WARNING: Could not find EN16931 CII pre-compiled XSLT."
+    fi
+else
+    echo "WARNING: EN16931 CII download failed. CII documents will report a missing ruleset."
+fi
+
+echo ""
+echo "=== Downloading CII D16B XSD Schemas ==="
+# The D16B subset schemas ship with the EN16931 sources; the main XSD imports
+# its sibling data type and aggregate schemas from the same directory
+CII_XSD_URL="https://github.com/ConnectingEurope/eInvoicing-EN16931/archive/refs/tags/validation-$EN16931_VERSION.zip"
+echo "Source: $CII_XSD_URL"
+if "$CURL" "${CURL_OPTS[@]}" -o "$TEMP_DIR/en16931-src.zip" "$CII_XSD_URL"; then
+    unzip -q "$TEMP_DIR/en16931-src.zip" -d "$TEMP_DIR/en16931-src" || true
+    CII_MAIN_XSD=$(find "$TEMP_DIR/en16931-src" -path "*cii/schema*" -name "CrossIndustryInvoice_100pD16B.xsd" | head -1)
+    if [ -n "$CII_MAIN_XSD" ]; then
+        rm -rf "$ARTIFACTS_DIR/xsd/cii-d16b"
+        mkdir -p "$ARTIFACTS_DIR/xsd/cii-d16b"
+        cp "$(dirname "$CII_MAIN_XSD")"/*.xsd "$ARTIFACTS_DIR/xsd/cii-d16b/"
+        echo "CII D16B XSD schemas installed."
+    else
+        echo "WARNING: Could not find CrossIndustryInvoice_100pD16B.xsd in the archive."
+    fi
+else
+    echo "WARNING: CII XSD download failed. CII documents will report a missing schema."
+fi
+
 # ─── Peppol BIS 3.0 ────────────────────────────────────────────────
 
 echo ""
@@ -165,6 +207,52 @@ else
     echo "WARNING: Could not find PEPPOL-EN16931-UBL.sch in the archive."
 fi
 
+# ─── CIUS rulesets (see schematron/rulesets.json) ─────────────────
+
+echo ""
+echo "=== Downloading XRechnung Schematron (KoSIT) ==="
+XRECHNUNG_VERSION="3.0.2"
+XRECHNUNG_SCHEMATRON_VERSION="2.2.0"
+XRECHNUNG_URL="https://github.com/itplr-kosit/xrechnung-schematron/releases/download/release-$XRECHNUNG_SCHEMATRON_VERSION/xrechnung-$XRECHNUNG_VERSION-schematron-$XRECHNUNG_SCHEMATRON_VERSION.zip"
+echo "Source: $XRECHNUNG_URL (XRechnung $XRECHNUNG_VERSION)"
+if "$CURL" "${CURL_OPTS[@]}" -o "$TEMP_DIR/xrechnung.zip" "$XRECHNUNG_URL"; then
+    unzip -q "$TEMP_DIR/xrechnung.zip" -d "$TEMP_DIR/xrechnung" || true
+    XRECHNUNG_XSLT=$(find "$TEMP_DIR/xrechnung" -name "XRechnung-UBL-validation.xsl*" | head -1)
+    if [ -n "$XRECHNUNG_XSLT" ]; then
+        mkdir -p "$ARTIFACTS_DIR/schematron/xrechnung"
+        cp "$XRECHNUNG_XSLT" "$ARTIFACTS_DIR/schematron/xrechnung/XRechnung-UBL-validation.xsl"
+        echo "XRechnung XSLT installed."
+    else
+        echo "WARNING: Could not find XRechnung-UBL-validation XSLT in the archive."
+    fi
+    XRECHNUNG_CII_XSLT=$(find "$TEMP_DIR/xrechnung" -name "XRechnung-CII-validation.xsl*" | head -1)
+    if [ -n "$XRECHNUNG_CII_XSLT" ]; then
+        mkdir -p "$ARTIFACTS_DIR/schematron/xrechnung"
+        cp "$XRECHNUNG_CII_XSLT" "$ARTIFACTS_DIR/schematron/xrechnung/XRechnung-CII-validation.xsl"
+        echo "XRechnung CII XSLT installed."
+    fi
+else
+    echo "WARNING: XRechnung download failed. XRechnung invoices will report a missing ruleset."
+fi
+
+echo ""
+echo "=== Downloading NLCIUS Schematron (SI-UBL 2.0) ==="
+NLCIUS_URL="https://github.com/peppolautoriteit-nl/validation/archive/refs/heads/master.zip"
+echo "Source: $NLCIUS_URL"
+if "$CURL" "${CURL_OPTS[@]}" -o "$TEMP_DIR/nlcius.zip" "$NLCIUS_URL"; then
+    unzip -q "$TEMP_DIR/nlcius.zip" -d "$TEMP_DIR/nlcius" || true
+    NLCIUS_XSLT=$(find "$TEMP_DIR/nlcius" -iname "*SI-UBL-2.0*.xsl*" | head -1)
+    if [ -n "$NLCIUS_XSLT" ]; then
+        mkdir -p "$ARTIFACTS_DIR/schematron/nlcius"
+        cp "$NLCIUS_XSLT" "$ARTIFACTS_DIR/schematron/nlcius/SI-UBL-2.0.xsl"
+        echo "NLCIUS XSLT installed."
+    else
+        echo "WARNING: Could not find a pre-compiled SI-UBL 2.0 XSLT in the archive."
+    fi
+else
+    echo "WARNING: NLCIUS download failed. NLCIUS invoices will report a missing ruleset."
+fi
+
 # ─── Summary ────────────────────────────────────────────────────────
 
 echo ""
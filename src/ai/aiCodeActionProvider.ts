@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
 
-const AI_FIX_SOURCES = new Set(['ubl-xsd', 'ubl-en16931', 'ubl-peppol']);
+// Diagnostics from XSD and every Schematron ruleset use the 'ubl-' source prefix
+const AI_FIX_SOURCE_PREFIX = 'ubl-';
 
 export class AiFixCodeActionProvider implements vscode.CodeActionProvider {
     public static readonly providedCodeActionKinds = [
@@ -15,7 +16,7 @@ export class AiFixCodeActionProvider implements vscode.CodeActionProvider {
         const actions: vscode.CodeAction[] = [];
 
         for (const diagnostic of context.diagnostics) {
-            if (!diagnostic.source || !AI_FIX_SOURCES.has(diagnostic.source)) {
+            if (!diagnostic.source?.startsWith(AI_FIX_SOURCE_PREFIX)) {
                 continue;
             }
 
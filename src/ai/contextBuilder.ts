@@ -57,13 +57,13 @@ export function buildMessages(context: FixContext, session: FixSession): Convers
     messages.push({
         role: 'system',
         content: [
-            'You are an XSLT repair agent for UBL documents.',
-            'You have access to the input XML (source data), the XSLT mapping stylesheet, and the generated UBL output.',
-            'Your job is to fix the XSLT mapping stylesheet so it produces valid UBL output. Do NOT modify the output XML — only fix the XSLT stylesheet.',
+            'You are an XSLT repair agent for UBL and UN/CEFACT CII documents.',
+            'You have access to the input XML (source data), the XSLT mapping stylesheet, and the generated UBL or CII output.',
+            'Your job is to fix the XSLT mapping stylesheet so it produces valid UBL or CII output. Do NOT modify the output XML — only fix the XSLT stylesheet.',
             'Return the complete modified XSLT stylesheet wrapped in <fix explanation="...">...</fix> tags.',
             'Make minimal changes to fix the specific error.',
             'Preserve all XML namespaces.',
-            'Place elements in the correct UBL schema order.',
+            'Place elements in the correct schema order (UBL or CII).',
             'Use data from the input XML via XPath when possible instead of hardcoded values.',
             'Do NOT include any text outside the <fix> tags.',
         ].join(' '),
@@ -226,6 +226,7 @@ async function applyAndVerify(
             ...pipelineOptions,
             xsltStylesheet: xsltFilePath,
             enableTracing: true,
+            onError: (msg) => vscode.window.showErrorMessage(msg),
         });
 
         if (!result.validationResult) {
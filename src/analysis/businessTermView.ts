@@ -0,0 +1,133 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import {
+    BusinessTerm,
+    businessTermForElement,
+    collectBusinessTerms,
+    formatBusinessTerm,
+    getBusinessTerm,
+} from '../semantic/businessTerms';
+import { elementAtOffset, parseXmlDocument, XmlElement } from '../xml/xmlDom';
+
+export const BUSINESS_TERM_SCHEME = 'ubl-terms';
+
+const UBL_ROOT_NAMESPACES = new Set([
+    'urn:oasis:names:specification:ubl:schema:xsd:Invoice-2',
+    'urn:oasis:names:specification:ubl:schema:xsd:CreditNote-2',
+]);
+
+// Parsed documents by URI, reused while the version is unchanged
+const parsedDocuments = new Map<string, { version: number; root: XmlElement | null }>();
+
+/** Root of an open UBL Invoice/CreditNote, or null for other or malformed documents */
+function parseUblDocument(document: vscode.TextDocument): XmlElement | null {
+    const key = document.uri.toString();
+    const cached = parsedDocuments.get(key);
+    if (cached && cached.version === document.version) {
+        return cached.root;
+    }
+    let root: XmlElement | null = null;
+    try {
+        const parsed = parseXmlDocument(document.getText()).root;
+        root = UBL_ROOT_NAMESPACES.has(parsed.namespaceUri) ? parsed : null;
+    } catch {
+        root = null;
+    }
+    parsedDocuments.set(key, { version: document.version, root });
+    return root;
+}
+
+export function forgetParsedDocument(uri: vscode.Uri): void {
+    parsedDocuments.delete(uri.toString());
+}
+
+function groupLabel(term: BusinessTerm): string | undefined {
+    const group = term.group ? getBusinessTerm(term.group) : undefined;
+    return group ? formatBusinessTerm(group) : undefined;
+}
+
+/** Names the EN16931 term of the UBL element under the cursor, e.g. "BT-31 Seller VAT identifier" */
+export class BusinessTermHoverProvider implements vscode.HoverProvider {
+    provideHover(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined {
+        const root = parseUblDocument(document);
+        const offset = document.offsetAt(position);
+        const element = root ? elementAtOffset(root, offset) : undefined;
+        if (!element) {
+            return undefined;
+        }
+        // Only hover on the start tag, not on the whole content of a group
+        if (offset >= element.startTagEndOffset) {
+            return undefined;
+        }
+        const term = businessTermForElement(element);
+        if (!term) {
+            return undefined;
+        }
+        const md = new vscode.MarkdownString();
+        md.appendMarkdown(`**${term.id}** ${term.name}`);
+        const group = groupLabel(term);
+        if (group) {
+            md.appendMarkdown(` · ${group}`);
+        }
+        return new vscode.Hover(md, new vscode.Range(document.positionAt(element.startOffset), document.positionAt(element.startTagEndOffset)));
+    }
+}
+
+/** ubl-terms:/<name>.md?<source URI>: the BT-level view of a UBL document */
+export function businessTermDocumentUri(source: vscode.Uri): vscode.Uri {
+    const name = path.posix.basename(source.path).replace(/\.[^.]*$/, '') || 'document';
+    return vscode.Uri.from({ scheme: BUSINESS_TERM_SCHEME, path: `/${name} business terms.md`, query: source.toString() });
+}
+
+function escapeMarkdown(text: string): string {
+    return text.replace(/[\\`*_[\]<>|]/g, '\\$&');
+}
+
+/** Renders the terms of a UBL document as an outline: groups with their terms and values */
+export function renderBusinessTermMarkdown(title: string, root: XmlElement): string {
+    const out = [`# ${escapeMarkdown(title)}`, ''];
+    const occurrences = collectBusinessTerms(root);
+    if (occurrences.length === 0) {
+        out.push('No EN16931 business terms found.');
+    }
+    for (const { term, element, value, depth } of occurrences) {
+        const indent = '  '.repeat(depth);
+        const line = element.start.line;
+        out.push(term.kind === 'BG'
+            ? `${indent}- **${term.id} ${term.name}** (line ${line})`
+            : `${indent}- ${term.id} ${term.name}: \`${value.replace(/`/g, "'")}\` (line ${line})`);
+    }
+    return out.join('\n');
+}
+
+export class BusinessTermDocumentProvider implements vscode.TextDocumentContentProvider {
+    private _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+    readonly onDidChange = this._onDidChange.event;
+
+    /** Re-renders open views when their source document changes */
+    refresh(source: vscode.Uri): void {
+        this._onDidChange.fire(businessTermDocumentUri(source));
+    }
+
+    async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+        const source = vscode.Uri.parse(uri.query);
+        const document = await vscode.workspace.openTextDocument(source);
+        const root = parseUblDocument(document);
+        if (!root) {
+            return `# ${escapeMarkdown(path.posix.basename(source.path))}\n\nNot a UBL Invoice or CreditNote, or the XML is not well-formed.`;
+        }
+        return renderBusinessTermMarkdown(path.posix.basename(source.path), root);
+    }
+}
+
+/** Opens the BT-level view of the active (or given) UBL document */
+export function createShowBusinessTermsCommand(): (uri?: vscode.Uri) => Promise<void> {
+    return async (uri?: vscode.Uri) => {
+        const source = uri ?? vscode.window.activeTextEditor?.document.uri;
+        if (!source) {
+            vscode.window.showWarningMessage('Open a UBL Invoice or CreditNote to show its business terms.');
+            return;
+        }
+        await vscode.commands.executeCommand('markdown.showPreview', businessTermDocumentUri(source));
+    };
+}
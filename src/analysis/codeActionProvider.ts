@@ -1,4 +1,6 @@
 import * as vscode from 'vscode';
+import { detectCiiDocumentFromContent } from '../validation/documentDetector';
+import { childElements, elementAtOffset, parseXmlDocument, XmlElement } from '../xml/xmlDom';
 
 /**
  * CodeActionProvider for Quick Fix integration on missing-element diagnostics.
@@ -16,6 +18,17 @@ export class MissingElementCodeActionProvider implements vscode.CodeActionProvid
         context: vscode.CodeActionContext,
     ): vscode.CodeAction[] {
         const actions: vscode.CodeAction[] = [];
+        if (!context.diagnostics.some(isMissingElementDiagnostic)) {
+            return actions;
+        }
+        // CII business terms live in the ram: namespace, UBL basic components in cbc:
+        const prefix = detectCiiDocumentFromContent(document.getText()) ? 'ram' : 'cbc';
+        let root: XmlElement | undefined;
+        try {
+            root = parseXmlDocument(document.getText()).root;
+        } catch {
+            // Malformed while being edited: fall back to inserting after the diagnostic line
+        }
 
         for (const diagnostic of context.diagnostics) {
             if (!isMissingElementDiagnostic(diagnostic)) {
@@ -50,18 +63,26 @@ export class MissingElementCodeActionProvider implements vscode.CodeActionProvid
 
             // Suggest adding the missing element
             const addAction = new vscode.CodeAction(
-                `Add <cbc:${missingElement}> element (stub)`,
+                `Add <${prefix}:${missingElement}> element (stub)`,
                 vscode.CodeActionKind.QuickFix
             );
             addAction.diagnostics = [diagnostic];
-            // Insert a stub element at the diagnostic line
-            const insertPosition = new vscode.Position(diagnostic.range.start.line + 1, 0);
             addAction.edit = new vscode.WorkspaceEdit();
-            addAction.edit.insert(
-                document.uri,
-                insertPosition,
-                `    <cbc:${missingElement}>TODO</cbc:${missingElement}>\n`
-            );
+            const stub = `<${prefix}:${missingElement}>TODO</${prefix}:${missingElement}>`;
+            const parent = root ? elementAtOffset(root, document.offsetAt(diagnostic.range.start)) : undefined;
+            if (parent && childElements(parent).length > 0) {
+                // Last child of the element the diagnostic is on, indented like its siblings
+                const indent = document.lineAt(parent.start.line - 1).text.match(/^\s*/)?.[0] ?? '';
+                const endTag = document.positionAt(document.getText().lastIndexOf('</', parent.endOffset - 1));
+                const ownLine = document.lineAt(endTag.line).text.slice(0, endTag.character).trim() === '';
+                addAction.edit.insert(
+                    document.uri,
+                    ownLine ? new vscode.Position(endTag.line, 0) : endTag,
+                    ownLine ? `${indent}    ${stub}\n` : `\n${indent}    ${stub}\n${indent}`
+                );
+            } else {
+                addAction.edit.insert(document.uri, new vscode.Position(diagnostic.range.start.line + 1, 0), `    ${stub}\n`);
+            }
             actions.push(addAction);
         }
 
@@ -76,7 +97,7 @@ function isMissingElementDiagnostic(diagnostic: vscode.Diagnostic): boolean {
         msg.includes('must exist') ||
         msg.includes('is mandatory') ||
         msg.includes('shall exist') ||
-        (msg.includes('missing') && (msg.includes('element') || msg.includes('cbc:') || msg.includes('cac:')))
+        (msg.includes('missing') && (msg.includes('element') || msg.includes('cbc:') || msg.includes('cac:') || msg.includes('ram:')))
     );
 }
 
@@ -84,7 +105,7 @@ function extractMissingElement(message: string): string | null {
     // Try various patterns
     const patterns = [
         /Expected.*?\{[^}]*\}(\w+)/i,
-        /missing.*?(?:cbc:|cac:)(\w+)/i,
+        /missing.*?(?:cbc:|cac:|ram:)(\w+)/i,
         /element.*?'(?:\{[^}]*\})?(\w+)'.*?must exist/i,
     ];
     for (const p of patterns) {
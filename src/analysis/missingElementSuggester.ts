@@ -17,7 +17,7 @@ const MISSING_ELEMENT_PATTERNS = [
     // Schematron: "[BR-XX] ...element... must exist / is mandatory"
     /\[([A-Z]+-\d+)\].*?(?:must exist|is mandatory|shall exist)/i,
     // Generic: mentions "missing" and an element name
-    /missing.*?(?:element|cbc:|cac:)\s*['"]?(\w+)/i,
+    /missing.*?(?:element|cbc:|cac:|ram:)\s*['"]?(\w+)/i,
 ];
 
 // Extract the parent element context from XSD error messages
@@ -0,0 +1,149 @@
+import * as vscode from 'vscode';
+import { loadRuleCatalog, lookupRule, RuleDefinition, suggestFixes } from '../validation/ruleCatalog';
+import { formatBusinessTerm, getBusinessTerm } from '../semantic/businessTerms';
+
+export const RULE_DOCUMENT_SCHEME = 'ubl-rule';
+
+// Rule IDs as used by EN16931, Peppol and the national CIUS: BR-CO-15, PEPPOL-EN16931-R080, NL-R-001
+const RULE_ID_WORD = /[A-Z][A-Z0-9]*(?:-[A-Z0-9]+)+/;
+
+/** Virtual markdown document with the rule's details; used as the diagnostic code link target */
+export function ruleDocumentUri(ruleId: string): vscode.Uri {
+    return vscode.Uri.from({ scheme: RULE_DOCUMENT_SCHEME, path: `/${ruleId}.md` });
+}
+
+function ruleIdFromUri(uri: vscode.Uri): string {
+    return uri.path.replace(/^\//, '').replace(/\.md$/, '');
+}
+
+/** "BT-112 Invoice total amount with VAT" where the term is known */
+function termLabel(id: string): string {
+    const term = getBusinessTerm(id);
+    return term ? formatBusinessTerm(term) : id;
+}
+
+function flagLabel(rule: RuleDefinition): string {
+    return rule.kind === 'report' ? `${rule.flag} (report)` : rule.flag;
+}
+
+/** The rule detail page: text, BT/BG terms, XPath context and test, and fix hints per ruleset */
+export function renderRuleMarkdown(ruleId: string, rules: RuleDefinition[]): string {
+    const lines = [`# ${ruleId}`, ''];
+    if (rules.length === 0) {
+        lines.push('No documentation for this rule is bundled with the extension.');
+        return lines.join('\n');
+    }
+
+    for (const rule of rules) {
+        if (rules.length > 1) {
+            lines.push(`## ${rule.rulesetLabel}`, '');
+        }
+        lines.push(`> ${rule.text}`, '');
+        lines.push(`- **Ruleset:** ${rule.rulesetLabel}`);
+        lines.push(`- **Flag:** ${flagLabel(rule)}`);
+        if (rule.businessTerms.length > 0) {
+            lines.push('- **Business terms:**', ...rule.businessTerms.map(id => `  - ${termLabel(id)}`));
+        } else {
+            lines.push('- **Business terms:** none named in the rule text');
+        }
+        lines.push('', '**Context**', '', '```xpath', rule.context, '```');
+        lines.push('', '**Test**', '', '```xpath', rule.test, '```');
+        lines.push('', '**How to fix**', '');
+        lines.push(...suggestFixes(rule).map(fix => `- ${fix}`), '');
+    }
+    return lines.join('\n');
+}
+
+export class RuleDocumentProvider implements vscode.TextDocumentContentProvider {
+    constructor(private readonly artifactsPath: string) {}
+
+    provideTextDocumentContent(uri: vscode.Uri): string {
+        const ruleId = ruleIdFromUri(uri);
+        return renderRuleMarkdown(ruleId, lookupRule(this.artifactsPath, ruleId));
+    }
+}
+
+/**
+ * Explains rules in XML and XSLT editors: on a validation diagnostic that
+ * carries a rule ID, or on a rule ID written in the text (comments, test
+ * names), shows the rule's text, business terms and context.
+ */
+export class RuleHoverProvider implements vscode.HoverProvider {
+    constructor(private readonly artifactsPath: string) {}
+
+    provideHover(document: vscode.TextDocument, position: vscode.Position): vscode.Hover | undefined {
+        const fromDiagnostics = vscode.languages.getDiagnostics(document.uri)
+            .filter(d => d.source?.startsWith('ubl-') && d.range.contains(position))
+            .map(d => ({ id: diagnosticRuleId(d), range: d.range }))
+            .filter((d): d is { id: string; range: vscode.Range } => d.id !== undefined);
+
+        const wordRange = document.getWordRangeAtPosition(position, RULE_ID_WORD);
+        const candidates = wordRange
+            ? [{ id: document.getText(wordRange), range: wordRange }, ...fromDiagnostics]
+            : fromDiagnostics;
+
+        const seen = new Set<string>();
+        const contents: vscode.MarkdownString[] = [];
+        let range: vscode.Range | undefined;
+        for (const candidate of candidates) {
+            if (seen.has(candidate.id)) {
+                continue;
+            }
+            seen.add(candidate.id);
+            const rules = lookupRule(this.artifactsPath, candidate.id);
+            if (rules.length === 0) {
+                continue;
+            }
+            contents.push(ruleHoverMarkdown(candidate.id, rules[0]));
+            range = range ?? candidate.range;
+        }
+        return contents.length > 0 ? new vscode.Hover(contents, range) : undefined;
+    }
+}
+
+function diagnosticRuleId(diagnostic: vscode.Diagnostic): string | undefined {
+    const code = diagnostic.code;
+    if (code === undefined) {
+        return undefined;
+    }
+    return typeof code === 'object' ? String(code.value) : String(code);
+}
+
+function ruleHoverMarkdown(ruleId: string, rule: RuleDefinition): vscode.MarkdownString {
+    const md = new vscode.MarkdownString();
+    md.appendMarkdown(`**${ruleId}** · ${rule.rulesetLabel} · ${flagLabel(rule)}\n\n`);
+    md.appendText(rule.text);
+    md.appendMarkdown('\n\n');
+    if (rule.businessTerms.length > 0) {
+        md.appendMarkdown(`Business terms: ${rule.businessTerms.map(termLabel).join(', ')}\n\n`);
+    }
+    md.appendMarkdown('Context: ');
+    md.appendCodeblock(rule.context, 'xpath');
+    const args = encodeURIComponent(JSON.stringify([ruleId]));
+    md.appendMarkdown(`[Rule details](command:xslt-transformer.showRule?${args})`);
+    md.isTrusted = true;
+    return md;
+}
+
+/** Opens the rule detail page; asks for the rule when called from the palette */
+export function createShowRuleCommand(artifactsPath: string): (ruleId?: string) => Promise<void> {
+    return async (ruleId?: string) => {
+        if (!ruleId) {
+            const items = [...loadRuleCatalog(artifactsPath)].map(([id, rules]) => ({
+                label: id,
+                description: rules.map(r => r.rulesetLabel).join(', '),
+                detail: rules[0].text,
+            }));
+            const picked = await vscode.window.showQuickPick(items, {
+                placeHolder: 'Search rules by ID or text',
+                matchOnDescription: true,
+                matchOnDetail: true,
+            });
+            if (!picked) {
+                return;
+            }
+            ruleId = picked.label;
+        }
+        await vscode.commands.executeCommand('markdown.showPreview', ruleDocumentUri(ruleId));
+    };
+}
@@ -0,0 +1,80 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { childElements, parseXmlDocument, XmlElement } from '../xml/xmlDom';
+
+const XSL_NAMESPACE = 'http://www.w3.org/1999/XSL/Transform';
+
+// document('lookup.xml') / doc("codes.xml") with a literal argument
+const DOCUMENT_CALL_REGEX = /\b(?:document|doc)\(\s*(['"])([^'"]+)\1/g;
+
+export interface StylesheetDependencies {
+    /** The stylesheet itself plus everything reached through xsl:include/xsl:import */
+    stylesheets: string[];
+    /** Files loaded with document()/doc() using a literal path */
+    documents: string[];
+}
+
+export function isLocalReference(href: string): boolean {
+    return !/^[a-z][a-z0-9+.-]*:\/\//i.test(href) && !href.startsWith('urn:');
+}
+
+/** Absolute path of an href relative to the stylesheet module it appears in */
+export function resolveReference(href: string, fromFile: string): string {
+    const withoutScheme = href.replace(/^file:\/\//, '');
+    return path.resolve(path.dirname(fromFile), decodeURIComponent(withoutScheme));
+}
+
+function walk(element: XmlElement, visit: (element: XmlElement) => void): void {
+    visit(element);
+    for (const child of childElements(element)) {
+        walk(child, visit);
+    }
+}
+
+/**
+ * Follows the xsl:include/xsl:import graph from a stylesheet and collects the
+ * documents it reads with literal document() calls. Missing or unparsable
+ * modules are still listed (so creating or fixing them can be noticed) but
+ * not followed. Paths are absolute and in discovery order.
+ */
+export function collectStylesheetDependencies(stylesheetPath: string): StylesheetDependencies {
+    const stylesheets: string[] = [];
+    const documents = new Set<string>();
+    const seen = new Set<string>();
+    const queue = [path.resolve(stylesheetPath)];
+
+    while (queue.length > 0) {
+        const file = queue.shift()!;
+        if (seen.has(file)) {
+            continue;
+        }
+        seen.add(file);
+        stylesheets.push(file);
+
+        let root: XmlElement;
+        try {
+            root = parseXmlDocument(fs.readFileSync(file, 'utf8')).root;
+        } catch {
+            continue;
+        }
+
+        walk(root, element => {
+            if (element.namespaceUri === XSL_NAMESPACE &&
+                (element.localName === 'include' || element.localName === 'import')) {
+                const href = element.attributes.get('href');
+                if (href && isLocalReference(href)) {
+                    queue.push(resolveReference(href, file));
+                }
+            }
+            for (const value of element.attributes.values()) {
+                for (const match of value.matchAll(DOCUMENT_CALL_REGEX)) {
+                    if (isLocalReference(match[2])) {
+                        documents.add(resolveReference(match[2], file));
+                    }
+                }
+            }
+        });
+    }
+
+    return { stylesheets, documents: [...documents].filter(d => !seen.has(d)) };
+}
@@ -20,10 +20,10 @@ export function analyzeXslt(xsltPath: string): XsltTemplate[] {
     const templateOpenRegex = /^\s*<xsl:template\b[^>]*match="([^"]*)"[^>]*>/;
     const templateCloseRegex = /^\s*<\/xsl:template\s*>/;
 
-    // UBL element patterns: literal elements with cac:, cbc:, or UBL namespace prefixes
-    const ublElementRegex = /<(?:cac|cbc|ubl|ext):([A-Za-z][A-Za-z0-9]*)/g;
+    // UBL/CII element patterns: literal elements with cac:, cbc:, ram:, rsm: or UBL namespace prefixes
+    const ublElementRegex = /<(?:cac|cbc|ubl|ext|rsm|ram|udt|qdt):([A-Za-z][A-Za-z0-9]*)/g;
     // Also match xsl:element with name containing UBL-style names
-    const xslElementRegex = /<xsl:element\s+name="(?:(?:cac|cbc|ubl|ext):)?([A-Za-z][A-Za-z0-9]*)"/g;
+    const xslElementRegex = /<xsl:element\s+name="(?:(?:cac|cbc|ubl|ext|rsm|ram|udt|qdt):)?([A-Za-z][A-Za-z0-9]*)"/g;
 
     let inTemplate = false;
     let currentMatch = '';
@@ -80,14 +80,14 @@ function extractProducedElements(lines: string[]): string[] {
     const body = lines.join('\n');
 
     // Match literal UBL elements
-    const ublElementRegex = /<(?:cac|cbc|ubl|ext):([A-Za-z][A-Za-z0-9]*)/g;
+    const ublElementRegex = /<(?:cac|cbc|ubl|ext|rsm|ram|udt|qdt):([A-Za-z][A-Za-z0-9]*)/g;
     let m: RegExpExecArray | null;
     while ((m = ublElementRegex.exec(body)) !== null) {
         elements.add(m[1]);
     }
 
     // Match xsl:element with name
-    const xslElementRegex = /<xsl:element\s+name="(?:(?:cac|cbc|ubl|ext):)?([A-Za-z][A-Za-z0-9]*)"/g;
+    const xslElementRegex = /<xsl:element\s+name="(?:(?:cac|cbc|ubl|ext|rsm|ram|udt|qdt):)?([A-Za-z][A-Za-z0-9]*)"/g;
     while ((m = xslElementRegex.exec(body)) !== null) {
         elements.add(m[1]);
     }
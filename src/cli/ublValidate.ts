@@ -0,0 +1,342 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as path from 'path';
+import { transformAndValidate, validateDocument } from '../pipeline/transformAndValidate';
+import { detectDocumentFromContent } from '../validation/documentDetector';
+import { IssueSeverity, ValidationIssue, ValidationResult, ValidationScope } from '../validation/types';
+import { TracedIssue } from '../tracing/errorTraceMapper';
+import { setTracingBackend, TracingBackend } from '../tracing/xsltTracer';
+import { createValidationReport, formatReport, ReportFormat } from '../reporting/reportFormats';
+import { stopJavaDaemons } from '../utils/javaDaemon';
+
+/**
+ * Headless entry point for CI: runs the same transform + validation pipeline
+ * the extension uses, without VS Code.
+ *
+ * Exit codes: 0 = no errors, 1 = validation errors found, 2 = usage or runtime failure.
+ */
+
+const EXIT_OK = 0;
+const EXIT_VALIDATION_FAILED = 1;
+const EXIT_USAGE = 2;
+
+const USAGE = `Usage:
+  ubl-validate transform --xml <input.xml> --xsl <stylesheet.xsl> [options]
+  ubl-validate validate <document.xml> [options]
+
+Options:
+  --scope <scope>      full | xsd-only | business-rules-only (default: full)
+  --out <file>         Write the transform output to a file (transform only)
+  --trace              Trace validation errors back to XSLT source lines (transform only)
+  --trace-backend <b>  comments | saxon (default: comments); implies --trace
+  --format <format>    text | json | junit | sarif (default: text)
+  --report <file>      Write the report to a file instead of stdout
+  --artifacts <dir>    Validation artifacts directory (default: bundled artifacts)
+  -h, --help           Show this help`;
+
+const VALIDATION_SCOPES: ValidationScope[] = ['full', 'xsd-only', 'business-rules-only'];
+const OUTPUT_FORMATS = ['text', 'json', 'junit', 'sarif'];
+const TRACING_BACKENDS: TracingBackend[] = ['comments', 'saxon'];
+
+interface CliArgs {
+    command: string;
+    positional: string[];
+    options: Record<string, string | boolean>;
+}
+
+class UsageError extends Error {}
+
+/** The command is the first argument that isn't an option, so `ubl-validate --help` works too */
+function parseArgs(argv: string[]): CliArgs {
+    const positional: string[] = [];
+    const options: Record<string, string | boolean> = {};
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (arg === '-h' || arg === '--help') {
+            options.help = true;
+        } else if (arg === '--trace') {
+            options.trace = true;
+        } else if (arg.startsWith('--')) {
+            const eq = arg.indexOf('=');
+            if (eq !== -1) {
+                options[arg.slice(2, eq)] = arg.slice(eq + 1);
+                continue;
+            }
+            const value = argv[i + 1];
+            if (value === undefined || value.startsWith('--')) {
+                throw new UsageError(`Missing value for ${arg}`);
+            }
+            options[arg.slice(2)] = value;
+            i++;
+        } else {
+            positional.push(arg);
+        }
+    }
+
+    const command = positional.shift() ?? '';
+    const args = { command, positional, options };
+    if (!options.help) {
+        checkOptions(args);
+    }
+    return args;
+}
+
+/** Rejects bad option values before any transform or validation runs */
+function checkOptions(args: CliArgs): void {
+    getScope(args);
+    getTraceBackend(args);
+    const format = getFormat(args);
+    const reportFile = getStringOption(args, 'report');
+    if (reportFile !== undefined) {
+        if (format === 'text') {
+            throw new UsageError('--report requires --format json, junit or sarif');
+        }
+        const reportDir = path.dirname(path.resolve(reportFile));
+        if (!fs.existsSync(reportDir)) {
+            throw new UsageError(`--report directory not found: ${reportDir}`);
+        }
+    }
+}
+
+function getStringOption(args: CliArgs, name: string): string | undefined {
+    const value = args.options[name];
+    return typeof value === 'string' ? value : undefined;
+}
+
+function getScope(args: CliArgs): ValidationScope {
+    const scope = getStringOption(args, 'scope') ?? 'full';
+    if (!VALIDATION_SCOPES.includes(scope as ValidationScope)) {
+        throw new UsageError(`Invalid --scope "${scope}". Expected one of: ${VALIDATION_SCOPES.join(', ')}`);
+    }
+    return scope as ValidationScope;
+}
+
+function getFormat(args: CliArgs): 'text' | ReportFormat {
+    const format = getStringOption(args, 'format') ?? 'text';
+    if (!OUTPUT_FORMATS.includes(format)) {
+        throw new UsageError(`Invalid --format "${format}". Expected one of: ${OUTPUT_FORMATS.join(', ')}`);
+    }
+    return format as 'text' | ReportFormat;
+}
+
+function getTraceBackend(args: CliArgs): TracingBackend | undefined {
+    const backend = getStringOption(args, 'trace-backend');
+    if (backend !== undefined && !TRACING_BACKENDS.includes(backend as TracingBackend)) {
+        throw new UsageError(`Invalid --trace-backend "${backend}". Expected one of: ${TRACING_BACKENDS.join(', ')}`);
+    }
+    return backend as TracingBackend | undefined;
+}
+
+function requireFile(filePath: string | undefined, label: string): string {
+    if (!filePath) {
+        throw new UsageError(`Missing ${label}`);
+    }
+    const resolved = path.resolve(filePath);
+    if (!fs.existsSync(resolved)) {
+        throw new UsageError(`${label} not found: ${resolved}`);
+    }
+    return resolved;
+}
+
+// out/cli/ublValidate.js -> extension root
+function getExtensionPath(): string {
+    return path.resolve(__dirname, '..', '..');
+}
+
+function getArtifactsPath(args: CliArgs): string {
+    return getStringOption(args, 'artifacts') ?? path.join(getExtensionPath(), 'validation-artifacts');
+}
+
+function severityLabel(severity: IssueSeverity): string {
+    switch (severity) {
+        case IssueSeverity.Error:
+            return 'error';
+        case IssueSeverity.Warning:
+            return 'warning';
+        default:
+            return 'info';
+    }
+}
+
+function printIssues(documentLabel: string, issues: Array<ValidationIssue | TracedIssue>): void {
+    for (const issue of issues) {
+        console.log(
+            `${documentLabel}:${issue.line}:${issue.column}: ${severityLabel(issue.severity)} [${issue.source}] ${issue.message}`
+        );
+        const traced = issue as TracedIssue;
+        if (traced.xsltSourceFile && traced.xsltSourceLine) {
+            const elementInfo = traced.xsltElementName ? `<${traced.xsltElementName}>` : 'element';
+            console.log(`    produced by ${elementInfo} at ${traced.xsltSourceFile}:${traced.xsltSourceLine}`);
+        }
+    }
+}
+
+/**
+ * Prints issues and summary as text, or writes a machine-readable report
+ * when --format is given. Returns the process exit code.
+ */
+function emitResult(
+    args: CliArgs,
+    documentPath: string,
+    result: ValidationResult,
+    issues: Array<ValidationIssue | TracedIssue>,
+    transform?: { sourceXml: string; xsltStylesheet: string }
+): number {
+    const format = getFormat(args);
+    const reportFile = getStringOption(args, 'report');
+
+    if (format === 'text') {
+        printIssues(documentPath, issues);
+        return printSummary(result);
+    }
+
+    const report = formatReport(
+        createValidationReport(documentPath, result, issues, transform), format, getArtifactsPath(args)
+    );
+    if (reportFile) {
+        fs.writeFileSync(reportFile, report, 'utf8');
+        return printSummary(result);
+    }
+
+    process.stdout.write(report);
+    return summaryExitCode(result);
+}
+
+function summaryExitCode(result: ValidationResult): number {
+    const hasErrors = result.issues.some(i => i.severity === IssueSeverity.Error);
+    const layerFailed = !result.xsdPassed || result.rulesetResults.some(r => !r.passed);
+    return hasErrors || layerFailed ? EXIT_VALIDATION_FAILED : EXIT_OK;
+}
+
+function printSummary(result: ValidationResult): number {
+    const errors = result.issues.filter(i => i.severity === IssueSeverity.Error).length;
+    const warnings = result.issues.filter(i => i.severity === IssueSeverity.Warning).length;
+
+    const failed: string[] = [];
+    if (!result.xsdPassed) {
+        failed.push('XSD');
+    }
+    for (const ruleset of result.rulesetResults) {
+        if (!ruleset.passed) {
+            failed.push(ruleset.label);
+        }
+    }
+
+    const docType = result.documentInfo?.rootElement ?? 'document';
+    const title = result.documentInfo ? `${result.documentInfo.syntax.toUpperCase()} Validation` : 'Validation';
+    if (errors === 0 && warnings === 0 && failed.length === 0) {
+        console.log(`${title} passed (${docType}) - no errors or warnings found.`);
+        return EXIT_OK;
+    }
+
+    const failedSources = failed.length > 0 ? ` Failed: ${failed.join(', ')}.` : '';
+    console.log(`${title} (${docType}): ${errors} error(s), ${warnings} warning(s).${failedSources}`);
+
+    // A layer that could not run counts as a failure even without issues
+    return summaryExitCode(result);
+}
+
+async function runTransform(args: CliArgs): Promise<number> {
+    const sourceXml = requireFile(getStringOption(args, 'xml'), '--xml input');
+    const xsltStylesheet = requireFile(getStringOption(args, 'xsl'), '--xsl stylesheet');
+    const outFile = getStringOption(args, 'out');
+    const extensionPath = getExtensionPath();
+    const traceBackend = getTraceBackend(args);
+    if (traceBackend) {
+        setTracingBackend(traceBackend);
+    }
+
+    const result = await transformAndValidate({
+        sourceXml,
+        xsltStylesheet,
+        artifactsPath: getArtifactsPath(args),
+        extensionPath,
+        validationScope: getScope(args),
+        enableTracing: args.options.trace === true || traceBackend !== undefined,
+        onError: (msg) => console.error(msg),
+    });
+
+    if (outFile) {
+        fs.writeFileSync(outFile, result.output, 'utf8');
+    }
+
+    if (!result.isValidated || !result.validationResult) {
+        console.log('Transform complete. Output is not UBL or CII - validation skipped.');
+        return EXIT_OK;
+    }
+
+    const documentPath = outFile ? path.resolve(outFile) : 'output';
+    return emitResult(
+        args,
+        documentPath,
+        result.validationResult,
+        result.tracedIssues ?? result.validationResult.issues,
+        { sourceXml, xsltStylesheet }
+    );
+}
+
+async function runValidate(args: CliArgs): Promise<number> {
+    const filePath = requireFile(args.positional[0], 'document');
+    const extensionPath = getExtensionPath();
+
+    const content = fs.readFileSync(filePath, 'utf8');
+    const docInfo = detectDocumentFromContent(content);
+    if (!docInfo) {
+        console.error(
+            'Not a recognized UBL 2.1 or CII D16B document. The root element does not match any known document type.'
+        );
+        return EXIT_USAGE;
+    }
+
+    const result = await validateDocument(content, docInfo, {
+        artifactsPath: getArtifactsPath(args),
+        extensionPath,
+        validationScope: getScope(args),
+        onError: (msg) => console.error(msg),
+    });
+
+    return emitResult(args, filePath, result, result.issues);
+}
+
+export async function main(argv: string[]): Promise<number> {
+    let args: CliArgs;
+    try {
+        args = parseArgs(argv);
+    } catch (error: any) {
+        console.error(error.message);
+        console.error(USAGE);
+        return EXIT_USAGE;
+    }
+
+    if (!args.command || args.options.help || args.command === 'help') {
+        console.log(USAGE);
+        return args.options.help || args.command === 'help' ? EXIT_OK : EXIT_USAGE;
+    }
+
+    try {
+        switch (args.command) {
+            case 'transform':
+                return await runTransform(args);
+            case 'validate':
+                return await runValidate(args);
+            default:
+                throw new UsageError(`Unknown command "${args.command}"`);
+        }
+    } catch (error: any) {
+        console.error(error instanceof UsageError ? error.message : `ubl-validate failed: ${error.message}`);
+        if (error instanceof UsageError) {
+            console.error(USAGE);
+        }
+        return EXIT_USAGE;
+    } finally {
+        // Let the process exit once output is written
+        stopJavaDaemons();
+    }
+}
+
+if (require.main === module) {
+    main(process.argv.slice(2)).then(code => {
+        process.exitCode = code;
+    });
+}
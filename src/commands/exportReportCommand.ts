@@ -0,0 +1,59 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { getLastValidationReport } from '../validation/diagnosticsReporter';
+import { formatReport, ReportFormat, REPORT_FILE_EXTENSIONS } from '../reporting/reportFormats';
+
+export function createExportReportCommand(artifactsPath: string): () => Promise<void> {
+    return async () => {
+        const report = getLastValidationReport();
+        if (!report) {
+            vscode.window.showWarningMessage(
+                'No validation result to export. Run a transform or validation first.'
+            );
+            return;
+        }
+
+        const format = await vscode.window.showQuickPick(
+            [
+                { label: 'JSON', description: 'Full result with traces', value: 'json' as ReportFormat },
+                { label: 'JUnit XML', description: 'For CI test result viewers', value: 'junit' as ReportFormat },
+                { label: 'SARIF 2.1', description: 'For code-scanning dashboards', value: 'sarif' as ReportFormat },
+            ],
+            { placeHolder: 'Select report format' }
+        );
+        if (!format) {
+            return;
+        }
+
+        const baseName = path.basename(report.documentPath).replace(/\.[^.]*$/, '') || 'ubl';
+        const defaultDir = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath
+            ?? (path.isAbsolute(report.documentPath) ? path.dirname(report.documentPath) : undefined);
+        const defaultName = `${baseName}-validation-report${REPORT_FILE_EXTENSIONS[format.value]}`;
+
+        const target = await vscode.window.showSaveDialog({
+            defaultUri: defaultDir ? vscode.Uri.file(path.join(defaultDir, defaultName)) : undefined,
+            filters: { [format.label]: [REPORT_FILE_EXTENSIONS[format.value].slice(1)] },
+            saveLabel: 'Export Report',
+        });
+        if (!target) {
+            return;
+        }
+
+        try {
+            fs.writeFileSync(target.fsPath, formatReport(report, format.value, artifactsPath), 'utf8');
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Failed to export validation report: ${error.message}`);
+            return;
+        }
+
+        const open = await vscode.window.showInformationMessage(
+            `Validation report exported to ${path.basename(target.fsPath)}`,
+            'Open'
+        );
+        if (open === 'Open') {
+            const doc = await vscode.workspace.openTextDocument(target);
+            await vscode.window.showTextDocument(doc);
+        }
+    };
+}
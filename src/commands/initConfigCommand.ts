@@ -1,8 +1,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import * as vscode from 'vscode';
-
-const CONFIG_FILENAME = '.ublproject.json';
+import { CONFIG_FILENAME } from '../config/projectConfig';
 
 export async function initConfigCommand(): Promise<void> {
     const workspaceFolders = vscode.workspace.workspaceFolders;
@@ -0,0 +1,226 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { findConfigFile, loadConfig, resolveProfileSamples, resolveSnapshotPath } from '../config/projectConfig';
+import { acceptSnapshot, describeDifference, MappingTestResult, runMappingTests } from '../pipeline/mappingTests';
+import { LineIndex } from '../xml/xmlParser';
+import { SampleOutputContentProvider, SAMPLE_OUTPUT_SCHEME } from './transformSamplesCommand';
+
+// Results of the last run, for the accept-snapshot command
+let lastResults: MappingTestResult[] = [];
+
+let outputChannel: vscode.OutputChannel | undefined;
+
+// Kept apart from validation diagnostics so a validation run doesn't clear test failures
+let testDiagnostics: vscode.DiagnosticCollection | undefined;
+
+function getOutputChannel(): vscode.OutputChannel {
+    if (!outputChannel) {
+        outputChannel = vscode.window.createOutputChannel('UBL Mapping Tests');
+    }
+    return outputChannel;
+}
+
+function actualOutputUri(result: MappingTestResult): vscode.Uri {
+    return vscode.Uri.from({ scheme: SAMPLE_OUTPUT_SCHEME, path: `${result.snapshotPath}.actual.xml` });
+}
+
+/**
+ * Puts each difference on the golden file, at the expected element (or its
+ * parent, for elements the new output added).
+ */
+function reportTestDiagnostics(result: MappingTestResult, index: LineIndex): void {
+    const diagnostics = result.differences.map(difference => {
+        const { line, column } = index.positionAt(difference.expectedOffset ?? 0);
+        const range = new vscode.Range(line - 1, column, line - 1, Number.MAX_SAFE_INTEGER);
+        const diagnostic = new vscode.Diagnostic(
+            range,
+            `Snapshot mismatch: ${describeDifference(difference)}`,
+            vscode.DiagnosticSeverity.Error
+        );
+        diagnostic.source = 'ubl-mapping-test';
+        return diagnostic;
+    });
+    testDiagnostics?.set(vscode.Uri.file(result.snapshotPath), diagnostics);
+}
+
+export function createRunMappingTestsCommand(
+    context: vscode.ExtensionContext,
+    contentProvider: SampleOutputContentProvider
+): () => Promise<void> {
+    testDiagnostics = vscode.languages.createDiagnosticCollection('ubl-mapping-tests');
+    context.subscriptions.push(testDiagnostics);
+
+    return async () => {
+        const configPath = findConfigFile();
+        if (!configPath) {
+            vscode.window.showWarningMessage('Mapping tests need profiles in .ublproject.json at the workspace root.');
+            return;
+        }
+        const configDir = path.dirname(configPath);
+
+        const channel = getOutputChannel();
+        channel.clear();
+        testDiagnostics?.clear();
+        const results: MappingTestResult[] = [];
+
+        try {
+            const config = loadConfig(configPath);
+            const profiles = config.profiles.filter(p => p.enabled !== false);
+
+            await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: 'Running mapping tests',
+                cancellable: true,
+            }, async (progress, token) => {
+                for (const profile of profiles) {
+                    if (token.isCancellationRequested) {
+                        break;
+                    }
+                    progress.report({ message: profile.name });
+                    const samples = await resolveProfileSamples(profile, configDir);
+                    const profileResults = await runMappingTests(
+                        samples.map(sourceXml => ({ sourceXml, snapshotPath: resolveSnapshotPath(profile, configDir, sourceXml) })),
+                        {
+                            xsltStylesheet: path.resolve(configDir, profile.xsltStylesheet),
+                            artifactsPath: path.join(context.extensionPath, 'validation-artifacts'),
+                            extensionPath: context.extensionPath,
+                            validationScope: profile.validationScope || 'full',
+                            isCancelled: () => token.isCancellationRequested,
+                        }
+                    );
+                    channel.appendLine(`Profile "${profile.name}"`);
+                    for (const result of profileResults) {
+                        logResult(channel, result, configDir, contentProvider);
+                    }
+                    channel.appendLine('');
+                    results.push(...profileResults);
+                }
+            });
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Mapping tests failed to run: ${error.message}`);
+            return;
+        }
+
+        lastResults = results;
+
+        const count = (status: string) => results.filter(r => r.status === status).length;
+        const failed = count('failed') + count('error');
+        const missing = count('missing');
+        channel.appendLine(`${count('passed')} passed, ${failed} failed, ${missing} without snapshot`);
+
+        const message = `Mapping tests: ${count('passed')} passed, ${failed} failed` +
+            (missing > 0 ? `, ${missing} without snapshot` : '');
+        const actions = ['Show Details'];
+        if (count('failed') > 0) {
+            actions.unshift('Show Diff');
+        }
+        if (count('failed') + missing > 0) {
+            actions.unshift('Accept New Snapshots');
+        }
+
+        const choice = failed > 0 || missing > 0
+            ? await vscode.window.showWarningMessage(message, ...actions)
+            : await vscode.window.showInformationMessage(message, ...actions);
+
+        if (choice === 'Accept New Snapshots') {
+            await vscode.commands.executeCommand('xslt-transformer.acceptMappingSnapshots');
+        } else if (choice === 'Show Diff') {
+            await showDiff(results.filter(r => r.status === 'failed'), configDir);
+        } else if (choice === 'Show Details') {
+            channel.show();
+        }
+    };
+}
+
+function logResult(
+    channel: vscode.OutputChannel,
+    result: MappingTestResult,
+    configDir: string,
+    contentProvider: SampleOutputContentProvider
+): void {
+    const label = path.relative(configDir, result.sourceXml);
+    contentProvider.update(actualOutputUri(result), result.output);
+
+    switch (result.status) {
+        case 'passed':
+            channel.appendLine(`  PASS ${label}`);
+            break;
+        case 'missing':
+            channel.appendLine(`  NEW  ${label} (no snapshot at ${path.relative(configDir, result.snapshotPath)})`);
+            break;
+        case 'error':
+            channel.appendLine(`  ERR  ${label}: ${result.error}`);
+            break;
+        case 'failed': {
+            channel.appendLine(`  FAIL ${label} (${result.differences.length} difference(s))`);
+            const expectedText = fs.readFileSync(result.snapshotPath, 'utf8');
+            const expectedIndex = new LineIndex(expectedText);
+            const actualIndex = new LineIndex(result.output);
+            for (const difference of result.differences) {
+                const expectedLine = expectedIndex.positionAt(difference.expectedOffset ?? 0).line;
+                const actualLine = actualIndex.positionAt(difference.actualOffset ?? 0).line;
+                channel.appendLine(
+                    `       ${describeDifference(difference)} (expected line ${expectedLine}, actual line ${actualLine})`
+                );
+            }
+            reportTestDiagnostics(result, expectedIndex);
+            break;
+        }
+    }
+}
+
+async function showDiff(failed: MappingTestResult[], configDir: string): Promise<void> {
+    const picked = failed.length === 1
+        ? failed[0]
+        : (await vscode.window.showQuickPick(
+            failed.map(r => ({ label: path.relative(configDir, r.sourceXml), result: r })),
+            { placeHolder: 'Select a failed test to compare' }
+        ))?.result;
+    if (!picked) {
+        return;
+    }
+    await vscode.commands.executeCommand(
+        'vscode.diff',
+        vscode.Uri.file(picked.snapshotPath),
+        actualOutputUri(picked),
+        `${path.basename(picked.snapshotPath)}: snapshot ↔ current output`
+    );
+}
+
+export function createAcceptMappingSnapshotsCommand(): () => Promise<void> {
+    return async () => {
+        const candidates = lastResults.filter(r => r.status === 'failed' || r.status === 'missing');
+        if (candidates.length === 0) {
+            vscode.window.showInformationMessage('No changed or new mapping outputs to accept. Run the mapping tests first.');
+            return;
+        }
+
+        const picked = await vscode.window.showQuickPick(
+            candidates.map(r => ({
+                label: path.basename(r.sourceXml),
+                description: r.status === 'missing' ? 'new snapshot' : `${r.differences.length} difference(s)`,
+                detail: r.snapshotPath,
+                picked: true,
+                result: r,
+            })),
+            { canPickMany: true, placeHolder: 'Select outputs to accept as the new snapshots' }
+        );
+        if (!picked || picked.length === 0) {
+            return;
+        }
+
+        for (const { result } of picked) {
+            try {
+                acceptSnapshot(result);
+                result.status = 'passed';
+                result.differences = [];
+                testDiagnostics?.delete(vscode.Uri.file(result.snapshotPath));
+            } catch (error: any) {
+                vscode.window.showErrorMessage(`Failed to write ${result.snapshotPath}: ${error.message}`);
+                return;
+            }
+        }
+        vscode.window.showInformationMessage(`Accepted ${picked.length} snapshot(s).`);
+    };
+}
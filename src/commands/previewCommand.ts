@@ -1,14 +1,14 @@
 import * as path from 'path';
 import * as vscode from 'vscode';
-import { findConfigFile, loadConfig, pickProfile, resolveProfilePaths } from '../config/projectConfig';
+import { findConfigFile, loadConfig, pickProfile, profileNameFromArgument, resolveProfilePaths } from '../config/projectConfig';
 import { transformAndValidate } from '../pipeline/transformAndValidate';
-import { reportDiagnostics, showSummaryNotification } from '../validation/diagnosticsReporter';
+import { reportDiagnostics, showSummaryNotification, storeValidationReport } from '../validation/diagnosticsReporter';
 import { getDiagnosticCollection } from '../extension';
 
 export function createPreviewCommand(
     context: vscode.ExtensionContext
-): () => Promise<void> {
-    return async () => {
+): (arg?: unknown) => Promise<void> {
+    return async (arg?: unknown) => {
         const artifactsPath = path.join(context.extensionPath, 'validation-artifacts');
         const diagnosticCollection = getDiagnosticCollection();
 
@@ -21,12 +21,12 @@ export function createPreviewCommand(
         if (configPath) {
             try {
                 const config = loadConfig(configPath);
-                const profile = await pickProfile(config);
+                const profile = await pickProfile(config, profileNameFromArgument(arg));
                 if (!profile) {
                     return;
                 }
                 const configDir = path.dirname(configPath);
-                const resolved = resolveProfilePaths(profile, configDir);
+                const resolved = await resolveProfilePaths(profile, configDir);
                 sourceXml = resolved.sourceXml;
                 xsltStylesheet = resolved.xsltStylesheet;
                 validationScope = profile.validationScope || 'full';
@@ -70,6 +70,7 @@ export function createPreviewCommand(
                     extensionPath: context.extensionPath,
                     validationScope,
                     onProgress: (msg) => progress.report({ message: msg }),
+                    onError: (msg) => vscode.window.showErrorMessage(msg),
                 });
 
                 // Show output in editor
@@ -79,13 +80,14 @@ export function createPreviewCommand(
                 });
                 await vscode.window.showTextDocument(doc, { preview: true });
 
-                if (result.isUbl && result.validationResult) {
+                if (result.isValidated && result.validationResult) {
                     // Report diagnostics on the output document
                     reportDiagnostics(diagnosticCollection, doc.uri, result.validationResult.issues);
+                    storeValidationReport(doc.uri, result.validationResult, undefined, { sourceXml, xsltStylesheet });
                     showSummaryNotification(result.validationResult);
                 } else {
                     vscode.window.showInformationMessage(
-                        'Transform complete. Output is not UBL - validation skipped.'
+                        'Transform complete. Output is not UBL or CII - validation skipped.'
                     );
                 }
             } catch (error: any) {
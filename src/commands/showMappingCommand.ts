@@ -1,9 +1,8 @@
-import * as fs from 'fs';
 import * as path from 'path';
 import * as vscode from 'vscode';
 import { findConfigFile, loadConfig, pickProfile, resolveProfilePaths } from '../config/projectConfig';
 import { transformAndValidate } from '../pipeline/transformAndValidate';
-import { MappingPanel } from '../webview/mappingPanel';
+import { MappingPanel, mappingRunFromResult } from '../webview/mappingPanel';
 
 export function createShowMappingCommand(
     context: vscode.ExtensionContext
@@ -24,7 +23,7 @@ export function createShowMappingCommand(
                     return;
                 }
                 const configDir = path.dirname(configPath);
-                const resolved = resolveProfilePaths(profile, configDir);
+                const resolved = await resolveProfilePaths(profile, configDir);
                 sourceXml = resolved.sourceXml;
                 xsltStylesheet = resolved.xsltStylesheet;
             } catch (error: any) {
@@ -68,16 +67,10 @@ export function createShowMappingCommand(
                     extensionPath: context.extensionPath,
                     enableTracing: true,
                     onProgress: (msg) => progress.report({ message: msg }),
+                    onError: (msg) => vscode.window.showErrorMessage(msg),
                 });
 
-                const sourceContent = fs.readFileSync(sourceXml, 'utf8');
-
-                MappingPanel.createOrShow(context.extensionUri, {
-                    sourceXml: sourceContent,
-                    outputXml: result.output,
-                    traceEntries: result.traceEntries || [],
-                    validationIssues: result.validationResult?.issues || [],
-                });
+                MappingPanel.createOrShow(context.extensionUri, mappingRunFromResult({ sourceXml, xsltStylesheet }, result));
             } catch (error: any) {
                 vscode.window.showErrorMessage(`Mapping view failed: ${error.message}`);
                 console.error('Mapping Error:', error);
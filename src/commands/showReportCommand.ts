@@ -0,0 +1,16 @@
+import * as vscode from 'vscode';
+import { getLastValidationReport } from '../validation/diagnosticsReporter';
+import { ReportPanel } from '../webview/reportPanel';
+
+export function createShowReportCommand(): () => void {
+    return () => {
+        const report = getLastValidationReport();
+        if (!report) {
+            vscode.window.showWarningMessage(
+                'No validation result to show. Run a transform or validation first.'
+            );
+            return;
+        }
+        ReportPanel.createOrShow(report);
+    };
+}
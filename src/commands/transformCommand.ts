@@ -1,14 +1,11 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { detectUblDocumentFromContent } from '../validation/documentDetector';
-import { validateXsdFromContent } from '../validation/xsdValidator';
-import { validateSchematronFromContent } from '../validation/schematronValidator';
-import { ValidationIssue, ValidationResult } from '../validation/types';
-import { reportTracedDiagnostics, showSummaryNotification } from '../validation/diagnosticsReporter';
+import { detectDocumentFromContent } from '../validation/documentDetector';
+import { reportTracedDiagnostics, showSummaryNotification, storeValidationReport } from '../validation/diagnosticsReporter';
 import { getDiagnosticCollection, setLastTransformContext } from '../extension';
 import { runInstrumentedTransform } from '../tracing/xsltTracer';
 import { mapIssuesToXsltSource } from '../tracing/errorTraceMapper';
-import { PipelineOptions } from '../pipeline/transformAndValidate';
+import { PipelineOptions, validateDocument } from '../pipeline/transformAndValidate';
 
 export function createTransformCommand(
     context: vscode.ExtensionContext
@@ -103,77 +100,32 @@ export function createTransformCommand(
                     });
                     await vscode.window.showTextDocument(outputDoc);
 
-                    // Auto-detect UBL and validate if applicable
+                    // Auto-detect UBL/CII and validate if applicable
                     progress.report({ increment: 10, message: 'Detecting document type...' });
-                    const docInfo = detectUblDocumentFromContent(output);
+                    const docInfo = detectDocumentFromContent(output);
 
                     if (!docInfo) {
-                        // Not UBL - nothing more to do
+                        // Not UBL or CII - nothing more to do
                         return;
                     }
 
-                    // Output is UBL - run validation automatically
-                    const allIssues: ValidationIssue[] = [];
-                    const validationResult: ValidationResult = {
-                        issues: [],
-                        documentInfo: docInfo,
-                        xsdPassed: true,
-                        en16931Passed: null,
-                        peppolPassed: null,
-                    };
-
-                    // XSD validation
-                    progress.report({ increment: 15, message: 'Running XSD validation...' });
-                    try {
-                        const xsdIssues = await validateXsdFromContent(
-                            output, docInfo, artifactsPath, context.extensionPath
-                        );
-                        allIssues.push(...xsdIssues);
-                        validationResult.xsdPassed = xsdIssues.length === 0;
-                    } catch (error: any) {
-                        vscode.window.showErrorMessage(`XSD validation error: ${error.message}`);
-                        validationResult.xsdPassed = false;
-                    }
-
-                    // EN16931 business rules (Invoice and CreditNote only)
-                    if (docInfo.isInvoiceOrCreditNote) {
-                        progress.report({ increment: 15, message: 'Checking EN16931 business rules...' });
-                        try {
-                            const en16931Issues = await validateSchematronFromContent(
-                                output, 'en16931', artifactsPath, context.extensionPath
-                            );
-                            allIssues.push(...en16931Issues);
-                            validationResult.en16931Passed = en16931Issues.filter(
-                                i => i.severity === vscode.DiagnosticSeverity.Error
-                            ).length === 0;
-                        } catch (error: any) {
-                            vscode.window.showErrorMessage(`EN16931 validation error: ${error.message}`);
-                            validationResult.en16931Passed = false;
-                        }
-
-                        // Peppol BIS 3.0 rules
-                        progress.report({ increment: 15, message: 'Checking Peppol BIS 3.0 rules...' });
-                        try {
-                            const peppolIssues = await validateSchematronFromContent(
-                                output, 'peppol', artifactsPath, context.extensionPath
-                            );
-                            allIssues.push(...peppolIssues);
-                            validationResult.peppolPassed = peppolIssues.filter(
-                                i => i.severity === vscode.DiagnosticSeverity.Error
-                            ).length === 0;
-                        } catch (error: any) {
-                            vscode.window.showErrorMessage(`Peppol validation error: ${error.message}`);
-                            validationResult.peppolPassed = false;
-                        }
-                    }
-
-                    validationResult.issues = allIssues;
+                    // Output is UBL or CII - run validation automatically
+                    const validationResult = await validateDocument(output, docInfo, {
+                        artifactsPath,
+                        extensionPath: context.extensionPath,
+                        onProgress: (msg) => progress.report({ increment: 10, message: msg }),
+                        onError: (msg) => vscode.window.showErrorMessage(msg),
+                    });
 
                     // Map validation issues to correct output lines + XSLT source
-                    const tracedIssues = mapIssuesToXsltSource(allIssues, traceEntries, output);
+                    const tracedIssues = mapIssuesToXsltSource(validationResult.issues, traceEntries, output);
 
                     // Report diagnostics with XSLT source links
                     reportTracedDiagnostics(diagnosticCollection, outputDoc.uri, tracedIssues);
+                    storeValidationReport(outputDoc.uri, validationResult, tracedIssues, {
+                        sourceXml: xmlPath,
+                        xsltStylesheet: xslPath,
+                    });
 
                     // Store transform context for AI fix agent
                     const pipelineOpts: PipelineOptions = {
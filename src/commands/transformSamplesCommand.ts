@@ -0,0 +1,149 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { findConfigFile, loadConfig, pickProfile, profileNameFromArgument, resolveProfileSamples } from '../config/projectConfig';
+import {
+    buildRuleMatrix,
+    diffRuleMatrix,
+    formatRuleMatrix,
+    RuleMatrix,
+    sampleIssues,
+    samplePassed,
+    transformSamples,
+} from '../pipeline/batchTransform';
+import { reportDiagnostics } from '../validation/diagnosticsReporter';
+import { getDiagnosticCollection } from '../extension';
+
+export const SAMPLE_OUTPUT_SCHEME = 'ubl-sample';
+
+// Transform output per sample, served read-only so diagnostics can point into it
+const sampleOutputs = new Map<string, string>();
+
+// Matrix of the previous run per profile, to show what a stylesheet change broke or fixed
+const previousMatrices = new Map<string, RuleMatrix>();
+
+let outputChannel: vscode.OutputChannel | undefined;
+
+export class SampleOutputContentProvider implements vscode.TextDocumentContentProvider {
+    private _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+    readonly onDidChange = this._onDidChange.event;
+
+    provideTextDocumentContent(uri: vscode.Uri): string {
+        return sampleOutputs.get(uri.toString()) ?? '';
+    }
+
+    update(uri: vscode.Uri, content: string): void {
+        sampleOutputs.set(uri.toString(), content);
+        this._onDidChange.fire(uri);
+    }
+}
+
+function getOutputChannel(): vscode.OutputChannel {
+    if (!outputChannel) {
+        outputChannel = vscode.window.createOutputChannel('UBL Sample Matrix');
+    }
+    return outputChannel;
+}
+
+function sampleOutputUri(profileName: string, relativeSample: string): vscode.Uri {
+    const posixPath = relativeSample.split(path.sep).join('/');
+    return vscode.Uri.from({ scheme: SAMPLE_OUTPUT_SCHEME, path: `/${profileName}/${posixPath}.out.xml` });
+}
+
+export function createTransformSamplesCommand(
+    context: vscode.ExtensionContext,
+    contentProvider: SampleOutputContentProvider
+): (arg?: unknown) => Promise<void> {
+    return async (arg?: unknown) => {
+        const configPath = findConfigFile();
+        if (!configPath) {
+            vscode.window.showWarningMessage(
+                'Transform All Samples needs a profile in .ublproject.json at the workspace root.'
+            );
+            return;
+        }
+
+        let profileName: string;
+        let samples: string[];
+        let xsltStylesheet: string;
+        let validationScope: 'full' | 'xsd-only' | 'business-rules-only';
+        const configDir = path.dirname(configPath);
+        try {
+            const config = loadConfig(configPath);
+            const profile = await pickProfile(config, profileNameFromArgument(arg));
+            if (!profile) {
+                return;
+            }
+            profileName = profile.name;
+            samples = await resolveProfileSamples(profile, configDir);
+            xsltStylesheet = path.resolve(configDir, profile.xsltStylesheet);
+            validationScope = profile.validationScope || 'full';
+        } catch (error: any) {
+            vscode.window.showErrorMessage(`Error loading .ublproject.json: ${error.message}`);
+            return;
+        }
+
+        const diagnosticCollection = getDiagnosticCollection();
+        const relative = (sample: string) => path.relative(configDir, sample);
+
+        const results = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `Transforming ${samples.length} sample(s)`,
+            cancellable: true,
+        }, (progress, token) => transformSamples(samples, {
+            xsltStylesheet,
+            artifactsPath: path.join(context.extensionPath, 'validation-artifacts'),
+            extensionPath: context.extensionPath,
+            validationScope,
+            isCancelled: () => token.isCancellationRequested,
+            onSampleComplete: (sample, completed, total) => {
+                const uri = sampleOutputUri(profileName, relative(sample.sourceXml));
+                contentProvider.update(uri, sample.result?.output ?? '');
+                reportDiagnostics(diagnosticCollection, uri, sampleIssues(sample));
+                progress.report({
+                    increment: 100 / total,
+                    message: `${completed}/${total}: ${path.basename(sample.sourceXml)}`,
+                });
+            },
+        }));
+
+        const matrixKey = `${configPath}#${profileName}`;
+        const matrix = buildRuleMatrix(results);
+        const previous = previousMatrices.get(matrixKey);
+        const changes = previous ? diffRuleMatrix(previous, matrix) : [];
+        previousMatrices.set(matrixKey, matrix);
+
+        const channel = getOutputChannel();
+        channel.clear();
+        channel.appendLine(`Profile "${profileName}": ${path.basename(xsltStylesheet)} over ${results.length} sample(s)`);
+        channel.appendLine('');
+        channel.appendLine(formatRuleMatrix(matrix, relative, changes));
+        for (const sample of results) {
+            for (const error of sample.errors) {
+                channel.appendLine(`${relative(sample.sourceXml)}: ${error}`);
+            }
+            if (sample.result && !sample.result.isValidated) {
+                channel.appendLine(`${relative(sample.sourceXml)}: output is not UBL or CII - validation skipped`);
+            }
+        }
+        if (changes.length > 0) {
+            channel.appendLine('');
+            channel.appendLine('Changes since the previous run ("+" now failing, "-" fixed):');
+            for (const change of changes) {
+                channel.appendLine(`  ${change.change === 'broken' ? '+' : '-'} ${change.ruleId} in ${relative(change.sourceXml)}`);
+            }
+        }
+
+        const passed = results.filter(samplePassed).length;
+        const broken = changes.filter(c => c.change === 'broken').length;
+        const fixed = changes.filter(c => c.change === 'fixed').length;
+        const changeSummary = changes.length > 0 ? ` Since last run: ${broken} newly failing, ${fixed} fixed.` : '';
+        const message = `Samples: ${passed}/${results.length} passed.${changeSummary}`;
+
+        const show = passed < results.length || broken > 0
+            ? await vscode.window.showWarningMessage(message, 'Show Matrix')
+            : await vscode.window.showInformationMessage(message, 'Show Matrix');
+        if (show === 'Show Matrix') {
+            channel.show();
+        }
+    };
+}
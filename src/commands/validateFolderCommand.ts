@@ -0,0 +1,156 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { BatchFileResult, summarizeBatch, validateBatch } from '../pipeline/batchValidate';
+import { reportDiagnostics } from '../validation/diagnosticsReporter';
+import { IssueSeverity } from '../validation/types';
+import { getDiagnosticCollection } from '../extension';
+
+const XML_GLOB = '**/*.xml';
+
+let outputChannel: vscode.OutputChannel | undefined;
+
+function getOutputChannel(): vscode.OutputChannel {
+    if (!outputChannel) {
+        outputChannel = vscode.window.createOutputChannel('UBL Batch Validation');
+    }
+    return outputChannel;
+}
+
+/**
+ * Asks for a folder or a glob pattern and returns the XML files it matches.
+ * Files excluded by files.exclude are left out, as in the explorer.
+ */
+async function pickFiles(folderUri?: vscode.Uri): Promise<{ label: string; files: vscode.Uri[] } | undefined> {
+    if (folderUri) {
+        const files = await vscode.workspace.findFiles(new vscode.RelativePattern(folderUri, XML_GLOB));
+        return { label: folderUri.fsPath, files };
+    }
+
+    const choice = await vscode.window.showQuickPick(
+        [
+            { label: 'Select Folder...', description: 'Validate every .xml file in a folder', value: 'folder' },
+            { label: 'Enter Glob Pattern...', description: 'e.g. invoices/**/*.xml', value: 'glob' },
+        ],
+        { placeHolder: 'What do you want to validate?' }
+    );
+    if (!choice) {
+        return undefined;
+    }
+
+    if (choice.value === 'folder') {
+        const picked = await vscode.window.showOpenDialog({
+            canSelectFiles: false,
+            canSelectFolders: true,
+            canSelectMany: false,
+            openLabel: 'Validate Folder',
+        });
+        if (!picked || picked.length === 0) {
+            return undefined;
+        }
+        const files = await vscode.workspace.findFiles(new vscode.RelativePattern(picked[0], XML_GLOB));
+        return { label: picked[0].fsPath, files };
+    }
+
+    const pattern = await vscode.window.showInputBox({
+        prompt: 'Glob pattern relative to the workspace',
+        value: XML_GLOB,
+        ignoreFocusOut: true,
+    });
+    if (!pattern) {
+        return undefined;
+    }
+    const files = await vscode.workspace.findFiles(pattern);
+    return { label: pattern, files };
+}
+
+export function createValidateFolderCommand(
+    context: vscode.ExtensionContext
+): (folderUri?: vscode.Uri) => Promise<void> {
+    return async (folderUri?: vscode.Uri) => {
+        const selection = await pickFiles(folderUri);
+        if (!selection) {
+            return;
+        }
+        if (selection.files.length === 0) {
+            vscode.window.showWarningMessage(`No XML files found in ${selection.label}.`);
+            return;
+        }
+
+        const artifactsPath = path.join(context.extensionPath, 'validation-artifacts');
+        const concurrency = vscode.workspace.getConfiguration('ublValidator.batch').get<number>('concurrency', 4);
+        const diagnosticCollection = getDiagnosticCollection();
+        const channel = getOutputChannel();
+        channel.clear();
+        channel.appendLine(`Validating ${selection.files.length} file(s) in ${selection.label}`);
+
+        const results = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: 'Validating UBL documents',
+            cancellable: true,
+        }, async (progress, token) => {
+            return validateBatch(selection.files.map(f => f.fsPath), {
+                artifactsPath,
+                extensionPath: context.extensionPath,
+                validationScope: 'full',
+                concurrency,
+                isCancelled: () => token.isCancellationRequested,
+                onFileComplete: (result, completed, total) => {
+                    reportFileResult(diagnosticCollection, channel, result);
+                    progress.report({
+                        increment: 100 / total,
+                        message: `${completed}/${total}: ${path.basename(result.filePath)}`,
+                    });
+                },
+            });
+        });
+
+        const summary = summarizeBatch(results);
+        const cancelled = results.length < selection.files.length;
+
+        channel.appendLine('');
+        channel.appendLine(
+            `${cancelled ? 'Cancelled after' : 'Done:'} ${summary.total} file(s) - ` +
+            `${summary.passed} passed, ${summary.failed} failed, ${summary.skipped} skipped`
+        );
+        if (summary.topRules.length > 0) {
+            channel.appendLine('Most frequent rules:');
+            for (const { ruleId, count } of summary.topRules) {
+                channel.appendLine(`  ${ruleId}: ${count}`);
+            }
+        }
+
+        const topRules = summary.topRules.slice(0, 3).map(r => `${r.ruleId} (${r.count})`).join(', ');
+        const message =
+            `UBL batch validation: ${summary.passed} passed, ${summary.failed} failed, ${summary.skipped} skipped` +
+            (topRules ? `. Top rules: ${topRules}` : '');
+        const show = summary.failed > 0
+            ? await vscode.window.showWarningMessage(message, 'Show Details')
+            : await vscode.window.showInformationMessage(message, 'Show Details');
+        if (show === 'Show Details') {
+            channel.show();
+        }
+    };
+}
+
+function reportFileResult(
+    collection: vscode.DiagnosticCollection,
+    channel: vscode.OutputChannel,
+    result: BatchFileResult
+): void {
+    const uri = vscode.Uri.file(result.filePath);
+    if (result.validationResult) {
+        reportDiagnostics(collection, uri, result.validationResult.issues);
+    } else {
+        collection.delete(uri);
+    }
+
+    const issues = result.validationResult?.issues ?? [];
+    const errors = issues.filter(i => i.severity === IssueSeverity.Error).length;
+    const detail = result.status === 'skipped'
+        ? result.errors.join('; ')
+        : `${errors} error(s), ${issues.length - errors} other issue(s)`;
+    channel.appendLine(`[${result.status.toUpperCase()}] ${result.filePath} - ${detail}`);
+    for (const error of result.status === 'skipped' ? [] : result.errors) {
+        channel.appendLine(`    ${error}`);
+    }
+}
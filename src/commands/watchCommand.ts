@@ -1,9 +1,14 @@
 import { WatchManager } from '../watch/watchManager';
+import { profileNameFromArgument } from '../config/projectConfig';
 
-export function createStartWatchCommand(watchManager: WatchManager): () => Promise<void> {
-    return () => watchManager.start();
+export function createStartWatchCommand(watchManager: WatchManager): (arg?: unknown) => Promise<void> {
+    return (arg?: unknown) => watchManager.start(profileNameFromArgument(arg));
 }
 
 export function createStopWatchCommand(watchManager: WatchManager): () => void {
     return () => watchManager.stop();
 }
+
+export function createShowWatchResultsCommand(watchManager: WatchManager): () => Promise<void> {
+    return () => watchManager.showResults();
+}
@@ -4,10 +4,13 @@ import * as vscode from 'vscode';
 
 export interface ProjectProfile {
     name: string;
-    sourceXml: string;
+    /** One source XML, or a list of sample files and glob patterns relative to the config file */
+    sourceXml: string | string[];
     xsltStylesheet: string;
     validationScope: 'full' | 'xsd-only' | 'business-rules-only';
     enabled: boolean;
+    /** Where golden outputs for mapping tests live, relative to the config file; defaults to snapshots/<name> */
+    snapshotDir?: string;
 }
 
 export interface ProjectConfig {
@@ -16,7 +19,7 @@ export interface ProjectConfig {
     profiles: ProjectProfile[];
 }
 
-const CONFIG_FILENAME = '.ublproject.json';
+export const CONFIG_FILENAME = '.ublproject.json';
 
 export function findConfigFile(): string | null {
     const workspaceFolders = vscode.workspace.workspaceFolders;
@@ -53,26 +56,91 @@ function validateConfig(obj: any): void {
         if (!p.name || typeof p.name !== 'string') {
             throw new Error('Each profile must have a "name" string');
         }
-        if (!p.sourceXml || typeof p.sourceXml !== 'string') {
-            throw new Error(`Profile "${p.name}": missing "sourceXml"`);
+        const samples = Array.isArray(p.sourceXml) ? p.sourceXml : [p.sourceXml];
+        if (samples.length === 0 || samples.some((s: any) => !s || typeof s !== 'string')) {
+            throw new Error(`Profile "${p.name}": "sourceXml" must be a path or a non-empty list of paths or globs`);
         }
         if (!p.xsltStylesheet || typeof p.xsltStylesheet !== 'string') {
             throw new Error(`Profile "${p.name}": missing "xsltStylesheet"`);
         }
+        if (p.snapshotDir !== undefined && typeof p.snapshotDir !== 'string') {
+            throw new Error(`Profile "${p.name}": "snapshotDir" must be a string`);
+        }
+    }
+}
+
+const GLOB_CHARS = /[*?{[]/;
+
+/**
+ * Expands a profile's sourceXml entries into absolute sample paths, in the
+ * order they are listed. Glob entries are matched relative to the config file
+ * and sorted so sample order is stable between runs.
+ */
+export async function resolveProfileSamples(profile: ProjectProfile, configDir: string): Promise<string[]> {
+    const entries = Array.isArray(profile.sourceXml) ? profile.sourceXml : [profile.sourceXml];
+    const samples: string[] = [];
+    for (const entry of entries) {
+        if (GLOB_CHARS.test(entry)) {
+            const matches = await vscode.workspace.findFiles(new vscode.RelativePattern(configDir, entry));
+            samples.push(...matches.map(uri => uri.fsPath).sort());
+        } else {
+            samples.push(path.resolve(configDir, entry));
+        }
+    }
+    const unique = Array.from(new Set(samples));
+    if (unique.length === 0) {
+        throw new Error(`Profile "${profile.name}": "sourceXml" does not match any files`);
     }
+    return unique;
 }
 
-export function resolveProfilePaths(
+/**
+ * Resolves the stylesheet and the profile's first sample, for commands that
+ * work on a single input.
+ */
+export async function resolveProfilePaths(
     profile: ProjectProfile,
     configDir: string
-): { sourceXml: string; xsltStylesheet: string } {
+): Promise<{ sourceXml: string; xsltStylesheet: string }> {
+    const samples = await resolveProfileSamples(profile, configDir);
     return {
-        sourceXml: path.resolve(configDir, profile.sourceXml),
+        sourceXml: samples[0],
         xsltStylesheet: path.resolve(configDir, profile.xsltStylesheet),
     };
 }
 
-export async function pickProfile(config: ProjectConfig): Promise<ProjectProfile | undefined> {
+/**
+ * Golden output file for one sample: the sample's path relative to the config
+ * file, mirrored under the profile's snapshot directory, with an
+ * .expected.xml extension. Samples outside the config directory get "__up__"
+ * for each "..", which keeps them apart from samples in a folder named "_".
+ */
+export function resolveSnapshotPath(profile: ProjectProfile, configDir: string, sample: string): string {
+    const snapshotDir = path.resolve(configDir, profile.snapshotDir ?? path.join('snapshots', profile.name));
+    const relative = path.relative(configDir, sample)
+        .split(path.sep)
+        .map(segment => segment === '..' ? '__up__' : segment)
+        .join(path.sep);
+    return path.join(snapshotDir, relative.replace(/\.[^.\/\\]*$/, '') + '.expected.xml');
+}
+
+/**
+ * Profile name carried by a command argument, such as an item of the Profiles
+ * view. Other arguments (e.g. the URI passed by editor menus) give undefined.
+ */
+export function profileNameFromArgument(arg: unknown): string | undefined {
+    const name = (arg as { profileName?: unknown } | undefined)?.profileName;
+    return typeof name === 'string' ? name : undefined;
+}
+
+export async function pickProfile(config: ProjectConfig, profileName?: string): Promise<ProjectProfile | undefined> {
+    if (profileName) {
+        const named = config.profiles.find(p => p.name === profileName);
+        if (named) {
+            return named;
+        }
+    }
+
     const enabledProfiles = config.profiles.filter(p => p.enabled !== false);
     if (enabledProfiles.length === 0) {
         vscode.window.showWarningMessage('No enabled profiles in .ublproject.json');
@@ -87,7 +155,7 @@ export async function pickProfile(config: ProjectConfig): Promise<ProjectProfile
     const items = enabledProfiles.map(p => ({
         label: p.name,
         description: p.name === config.defaultProfile ? '(default)' : undefined,
-        detail: `${p.sourceXml} -> ${p.xsltStylesheet}`,
+        detail: `${Array.isArray(p.sourceXml) ? p.sourceXml.join(', ') : p.sourceXml} -> ${p.xsltStylesheet}`,
         profile: p,
     }));
 
@@ -106,3 +174,35 @@ export async function pickProfile(config: ProjectConfig): Promise<ProjectProfile
 
     return picked?.profile;
 }
+
+/** Like pickProfile, but lets the user keep several profiles; all enabled ones are preselected */
+export async function pickProfiles(config: ProjectConfig, profileName?: string): Promise<ProjectProfile[] | undefined> {
+    const named = profileName ? config.profiles.find(p => p.name === profileName) : undefined;
+    if (named) {
+        return [named];
+    }
+
+    const enabledProfiles = config.profiles.filter(p => p.enabled !== false);
+    if (enabledProfiles.length === 0) {
+        vscode.window.showWarningMessage('No enabled profiles in .ublproject.json');
+        return undefined;
+    }
+    if (enabledProfiles.length === 1) {
+        return enabledProfiles;
+    }
+
+    const picked = await vscode.window.showQuickPick(
+        enabledProfiles.map(p => ({
+            label: p.name,
+            description: p.name === config.defaultProfile ? '(default)' : undefined,
+            detail: `${Array.isArray(p.sourceXml) ? p.sourceXml.join(', ') : p.sourceXml} -> ${p.xsltStylesheet}`,
+            picked: true,
+            profile: p,
+        })),
+        { canPickMany: true, placeHolder: 'Select the profiles to watch' }
+    );
+    if (!picked || picked.length === 0) {
+        return undefined;
+    }
+    return picked.map(item => item.profile);
+}
@@ -1,14 +1,48 @@
+import * as path from 'path';
 import * as vscode from 'vscode';
 import { createTransformCommand } from './commands/transformCommand';
 import { createValidateCommand } from './commands/validateCommand';
+import { createValidateFolderCommand } from './commands/validateFolderCommand';
+import {
+    createTransformSamplesCommand,
+    SampleOutputContentProvider,
+    SAMPLE_OUTPUT_SCHEME,
+} from './commands/transformSamplesCommand';
+import { createAcceptMappingSnapshotsCommand, createRunMappingTestsCommand } from './commands/mappingTestsCommand';
+import { createExportReportCommand } from './commands/exportReportCommand';
+import { initConfigCommand } from './commands/initConfigCommand';
+import { createPreviewCommand } from './commands/previewCommand';
+import { createShowMappingCommand } from './commands/showMappingCommand';
+import { createShowReportCommand } from './commands/showReportCommand';
+import { createShowWatchResultsCommand, createStartWatchCommand, createStopWatchCommand } from './commands/watchCommand';
+import { WatchManager } from './watch/watchManager';
+import { LiveValidationMode, LiveValidator } from './watch/liveValidator';
+import { ProfilesTreeProvider } from './views/profilesView';
+import { LastRunTreeProvider } from './views/lastRunView';
+import { IssuesTreeProvider, revealIssue } from './views/issuesView';
+import { CONFIG_FILENAME, findConfigFile } from './config/projectConfig';
 import { MissingElementCodeActionProvider } from './analysis/codeActionProvider';
+import {
+    BUSINESS_TERM_SCHEME,
+    BusinessTermDocumentProvider,
+    BusinessTermHoverProvider,
+    businessTermDocumentUri,
+    createShowBusinessTermsCommand,
+    forgetParsedDocument,
+} from './analysis/businessTermView';
+import { createShowRuleCommand, RULE_DOCUMENT_SCHEME, RuleDocumentProvider, RuleHoverProvider } from './analysis/ruleDocumentation';
 import { AiFixCodeActionProvider } from './ai/aiCodeActionProvider';
 import { AiFixContentProvider, fixSingleIssue } from './ai/fixAgent';
 import { getAiConfig, ensureApiKey, storeApiKey } from './ai/settingsManager';
-import { getTracedIssue, getTracedIssues } from './validation/diagnosticsReporter';
+import { getLastValidationReport, getTracedIssue, getTracedIssues, onDidStoreValidationReport } from './validation/diagnosticsReporter';
+import { ReportPanel } from './webview/reportPanel';
 import { checkJavaAvailable } from './utils/javaRunner';
+import { setJavaDaemonEnabled, stopJavaDaemons } from './utils/javaDaemon';
+import { configureValidationCache, disposeValidationCache } from './validation/validationCache';
 import { AiProvider, AiConfig, FixSession } from './ai/types';
-import { PipelineOptions } from './pipeline/transformAndValidate';
+import { PipelineOptions, setValidationPassConcurrency } from './pipeline/transformAndValidate';
+import { TracedIssue } from './tracing/errorTraceMapper';
+import { setTracingBackend, TracingBackend } from './tracing/xsltTracer';
 
 let diagnosticCollection: vscode.DiagnosticCollection;
 
@@ -62,6 +96,25 @@ export function activate(context: vscode.ExtensionContext) {
     diagnosticCollection = vscode.languages.createDiagnosticCollection('ubl-validation');
     context.subscriptions.push(diagnosticCollection);
 
+    configureValidationCache(context.globalStorageUri.fsPath, context.extension.packageJSON.version);
+
+    const applyJavaSettings = () => {
+        const config = vscode.workspace.getConfiguration('ublValidator');
+        setJavaDaemonEnabled(config.get<boolean>('javaDaemon.enabled', true));
+        setValidationPassConcurrency(config.get<number>('validation.passConcurrency', 3));
+        setTracingBackend(config.get<TracingBackend>('tracing.backend', 'comments'));
+    };
+    applyJavaSettings();
+    context.subscriptions.push(
+        vscode.workspace.onDidChangeConfiguration(e => {
+            if (e.affectsConfiguration('ublValidator.javaDaemon.enabled') ||
+                e.affectsConfiguration('ublValidator.validation.passConcurrency') ||
+                e.affectsConfiguration('ublValidator.tracing.backend')) {
+                applyJavaSettings();
+            }
+        })
+    );
+
     context.subscriptions.push(
         vscode.commands.registerCommand('xslt-transformer.transform', createTransformCommand(context))
     );
@@ -87,6 +140,122 @@ export function activate(context: vscode.ExtensionContext) {
         )
     );
 
+    context.subscriptions.push(
+        vscode.commands.registerCommand('xslt-transformer.validateFolder', createValidateFolderCommand(context))
+    );
+
+    const sampleOutputProvider = new SampleOutputContentProvider();
+    context.subscriptions.push(
+        vscode.workspace.registerTextDocumentContentProvider(SAMPLE_OUTPUT_SCHEME, sampleOutputProvider)
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            'xslt-transformer.transformAllSamples',
+            createTransformSamplesCommand(context, sampleOutputProvider)
+        )
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            'xslt-transformer.runMappingTests',
+            createRunMappingTestsCommand(context, sampleOutputProvider)
+        )
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('xslt-transformer.acceptMappingSnapshots', createAcceptMappingSnapshotsCommand())
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('xslt-transformer.exportReport', createExportReportCommand(path.join(context.extensionPath, 'validation-artifacts')))
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('xslt-transformer.initConfig', initConfigCommand)
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('xslt-transformer.preview', createPreviewCommand(context))
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('xslt-transformer.showMapping', createShowMappingCommand(context))
+    );
+
+    context.subscriptions.push(
+        vscode.commands.registerCommand('xslt-transformer.showReport', createShowReportCommand())
+    );
+
+    // Watch mode: profile-driven re-run on XSLT save
+    const watchManager = new WatchManager(context, sampleOutputProvider);
+    context.subscriptions.push(watchManager);
+    context.subscriptions.push(
+        vscode.commands.registerCommand('xslt-transformer.startWatch', createStartWatchCommand(watchManager))
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand('xslt-transformer.stopWatch', createStopWatchCommand(watchManager))
+    );
+    context.subscriptions.push(
+        vscode.commands.registerCommand('xslt-transformer.showWatchResults', createShowWatchResultsCommand(watchManager))
+    );
+
+    // Opt-in validation of open UBL/CII documents while typing or on save
+    const liveValidator = new LiveValidator(context);
+    const applyLiveValidationSettings = () => {
+        const config = vscode.workspace.getConfiguration('ublValidator');
+        liveValidator.configure(
+            config.get<LiveValidationMode>('liveValidation.mode', 'off'),
+            config.get<number>('liveValidation.debounceMs', 800)
+        );
+    };
+    applyLiveValidationSettings();
+    context.subscriptions.push(
+        liveValidator,
+        vscode.workspace.onDidChangeConfiguration(e => {
+            if (e.affectsConfiguration('ublValidator.liveValidation')) {
+                applyLiveValidationSettings();
+            }
+        })
+    );
+
+    // Sidebar: profiles, last run summary and issues
+    const profilesProvider = new ProfilesTreeProvider();
+    const lastRunProvider = new LastRunTreeProvider();
+    const issuesProvider = new IssuesTreeProvider();
+    context.subscriptions.push(
+        vscode.window.registerTreeDataProvider('ublValidator.profiles', profilesProvider),
+        vscode.window.registerTreeDataProvider('ublValidator.lastRun', lastRunProvider),
+        vscode.window.registerTreeDataProvider('ublValidator.issues', issuesProvider),
+        vscode.commands.registerCommand('xslt-transformer.refreshProfiles', () => profilesProvider.refresh()),
+        vscode.commands.registerCommand('xslt-transformer.revealIssue', revealIssue),
+        onDidStoreValidationReport(() => {
+            lastRunProvider.refresh();
+            issuesProvider.refresh();
+            const report = getLastValidationReport();
+            if (report) {
+                ReportPanel.updateIfOpen(report);
+            }
+        })
+    );
+
+    // Track .ublproject.json so profile commands, the views and the watch entry follow it
+    const updateProjectConfigContext = () => {
+        const present = findConfigFile() !== null;
+        vscode.commands.executeCommand('setContext', 'xslt-transformer.hasProjectConfig', present);
+        watchManager.setProjectConfigPresent(present);
+        profilesProvider.refresh();
+    };
+    updateProjectConfigContext();
+    const configWatcher = vscode.workspace.createFileSystemWatcher(`**/${CONFIG_FILENAME}`);
+    configWatcher.onDidCreate(updateProjectConfigContext);
+    configWatcher.onDidChange(() => profilesProvider.refresh());
+    configWatcher.onDidDelete(updateProjectConfigContext);
+    context.subscriptions.push(
+        configWatcher,
+        vscode.workspace.onDidChangeWorkspaceFolders(updateProjectConfigContext)
+    );
+
     // Code action provider for missing element Quick Fix suggestions
     context.subscriptions.push(
         vscode.languages.registerCodeActionsProvider(
@@ -105,17 +274,40 @@ export function activate(context: vscode.ExtensionContext) {
         )
     );
 
+    // Rule documentation: hover on rule IDs and the detail page diagnostic codes link to
+    const artifactsPath = path.join(context.extensionPath, 'validation-artifacts');
+    context.subscriptions.push(
+        vscode.languages.registerHoverProvider({ language: 'xml', scheme: '*' }, new RuleHoverProvider(artifactsPath)),
+        vscode.workspace.registerTextDocumentContentProvider(RULE_DOCUMENT_SCHEME, new RuleDocumentProvider(artifactsPath)),
+        vscode.commands.registerCommand('xslt-transformer.showRule', createShowRuleCommand(artifactsPath))
+    );
+
+    // EN16931 business terms: hover on UBL elements and a BT-level view of the document
+    const businessTermProvider = new BusinessTermDocumentProvider();
+    context.subscriptions.push(
+        vscode.languages.registerHoverProvider({ language: 'xml', scheme: '*' }, new BusinessTermHoverProvider()),
+        vscode.workspace.registerTextDocumentContentProvider(BUSINESS_TERM_SCHEME, businessTermProvider),
+        vscode.commands.registerCommand('xslt-transformer.showBusinessTerms', createShowBusinessTermsCommand()),
+        vscode.workspace.onDidChangeTextDocument(e => {
+            const view = businessTermDocumentUri(e.document.uri).toString();
+            if (vscode.workspace.textDocuments.some(d => d.uri.toString() === view)) {
+                businessTermProvider.refresh(e.document.uri);
+            }
+        }),
+        vscode.workspace.onDidCloseTextDocument(document => forgetParsedDocument(document.uri))
+    );
+
     // Register TextDocumentContentProvider for ai-fix: diff scheme
     const aiFixContentProvider = new AiFixContentProvider();
     context.subscriptions.push(
         vscode.workspace.registerTextDocumentContentProvider('ai-fix', aiFixContentProvider)
     );
 
-    // Command: Fix single error with AI (from code action)
+    // Command: Fix single error with AI (from code action or the report panel)
     context.subscriptions.push(
         vscode.commands.registerCommand(
             'xslt-transformer.aiFixSingle',
-            async (diagnostic: vscode.Diagnostic) => {
+            async (target: vscode.Diagnostic | TracedIssue) => {
                 if (!lastPipelineOptions || !lastOutputContent || !lastOutputUri) {
                     vscode.window.showWarningMessage(
                         'No transform context available. Run an XSLT transform first, then use AI fix on the validation errors.'
@@ -123,7 +315,8 @@ export function activate(context: vscode.ExtensionContext) {
                     return;
                 }
 
-                const tracedIssue = getTracedIssue(lastOutputUri, diagnostic);
+                // Code actions pass the diagnostic; the report panel passes the traced issue itself
+                const tracedIssue = 'range' in target ? getTracedIssue(lastOutputUri, target) : target;
                 if (!tracedIssue) {
                     vscode.window.showWarningMessage(
                         'Cannot find trace data for this diagnostic. Run a transform with tracing enabled first.'
@@ -285,4 +478,7 @@ export function getDiagnosticCollection(): vscode.DiagnosticCollection {
     return diagnosticCollection;
 }
 
-export function deactivate() {}
+export function deactivate() {
+    stopJavaDaemons();
+    disposeValidationCache();
+}
@@ -0,0 +1,179 @@
+import { IssueSeverity, ValidationIssue } from '../validation/types';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { PipelineOptions, transformAndValidate, TransformResult } from './transformAndValidate';
+
+export interface SampleResult {
+    sourceXml: string;
+    /** null when the transform itself failed */
+    result: TransformResult | null;
+    /** Transform failure, or layer errors reported during validation */
+    errors: string[];
+}
+
+export interface SampleBatchOptions extends Omit<PipelineOptions, 'sourceXml' | 'onError'> {
+    concurrency?: number;
+    onSampleComplete?: (sample: SampleResult, completed: number, total: number) => void;
+    isCancelled?: () => boolean;
+}
+
+/**
+ * Rule-by-sample failure counts. Rows are rule IDs (XSD errors, which carry
+ * no rule ID, are grouped under "XSD"); columns follow `samples`.
+ */
+export interface RuleMatrix {
+    samples: string[];
+    rules: string[];
+    /** counts[rule][sampleIndex] = number of error issues */
+    counts: Map<string, number[]>;
+}
+
+export interface MatrixChange {
+    ruleId: string;
+    sourceXml: string;
+    change: 'broken' | 'fixed';
+}
+
+const DEFAULT_CONCURRENCY = 2;
+
+/**
+ * Runs one stylesheet over every sample through transformAndValidate.
+ * Samples run a few at a time; a failing transform is recorded on its sample
+ * instead of aborting the run.
+ */
+export async function transformSamples(samples: string[], options: SampleBatchOptions): Promise<SampleResult[]> {
+    let completed = 0;
+    return mapWithConcurrency(
+        samples,
+        options.concurrency ?? DEFAULT_CONCURRENCY,
+        async (sourceXml) => {
+            const errors: string[] = [];
+            let result: TransformResult | null = null;
+            try {
+                result = await transformAndValidate({
+                    ...options,
+                    sourceXml,
+                    onProgress: undefined,
+                    onError: (msg) => errors.push(msg),
+                });
+            } catch (error: any) {
+                errors.push(error.message);
+            }
+            const sample = { sourceXml, result, errors };
+            completed++;
+            options.onSampleComplete?.(sample, completed, samples.length);
+            return sample;
+        },
+        options.isCancelled
+    );
+}
+
+export function sampleIssues(sample: SampleResult): ValidationIssue[] {
+    return sample.result?.tracedIssues ?? sample.result?.validationResult?.issues ?? [];
+}
+
+export function samplePassed(sample: SampleResult): boolean {
+    const validation = sample.result?.validationResult;
+    if (!sample.result || sample.errors.length > 0) {
+        return false;
+    }
+    if (!validation) {
+        // Output is not UBL/CII, nothing to fail
+        return true;
+    }
+    return validation.xsdPassed &&
+        validation.rulesetResults.every(r => r.passed) &&
+        !validation.issues.some(i => i.severity === IssueSeverity.Error);
+}
+
+export function buildRuleMatrix(samples: SampleResult[]): RuleMatrix {
+    const counts = new Map<string, number[]>();
+    samples.forEach((sample, index) => {
+        for (const issue of sampleIssues(sample)) {
+            if (issue.severity !== IssueSeverity.Error) {
+                continue;
+            }
+            const rule = issue.ruleId ?? issue.source.toUpperCase();
+            let row = counts.get(rule);
+            if (!row) {
+                row = new Array(samples.length).fill(0);
+                counts.set(rule, row);
+            }
+            row[index]++;
+        }
+    });
+
+    return {
+        samples: samples.map(s => s.sourceXml),
+        rules: Array.from(counts.keys()).sort(),
+        counts,
+    };
+}
+
+/**
+ * Compares two runs over the same profile: which rule/sample cells started
+ * failing and which were fixed. Samples missing from either run are ignored.
+ */
+export function diffRuleMatrix(previous: RuleMatrix, current: RuleMatrix): MatrixChange[] {
+    const changes: MatrixChange[] = [];
+    const rules = new Set([...previous.rules, ...current.rules]);
+
+    current.samples.forEach((sourceXml, index) => {
+        const previousIndex = previous.samples.indexOf(sourceXml);
+        if (previousIndex === -1) {
+            return;
+        }
+        for (const ruleId of rules) {
+            const before = previous.counts.get(ruleId)?.[previousIndex] ?? 0;
+            const after = current.counts.get(ruleId)?.[index] ?? 0;
+            if (before === 0 && after > 0) {
+                changes.push({ ruleId, sourceXml, change: 'broken' });
+            } else if (before > 0 && after === 0) {
+                changes.push({ ruleId, sourceXml, change: 'fixed' });
+            }
+        }
+    });
+
+    return changes;
+}
+
+/**
+ * Plain-text table for the output channel. Samples are numbered columns
+ * (S1, S2, ...) with a legend, since file names are too wide for a grid.
+ * Cells changed since the previous run are marked "+" (broken) or "-" (fixed).
+ */
+export function formatRuleMatrix(
+    matrix: RuleMatrix,
+    labelSample: (sourceXml: string) => string,
+    changes: MatrixChange[] = []
+): string {
+    const lines: string[] = [];
+    matrix.samples.forEach((sample, i) => lines.push(`S${i + 1}  ${labelSample(sample)}`));
+    lines.push('');
+
+    const fixedRules = changes.filter(c => c.change === 'fixed').map(c => c.ruleId);
+    const rules = Array.from(new Set([...matrix.rules, ...fixedRules])).sort();
+    if (rules.length === 0) {
+        lines.push('No errors in any sample.');
+        return lines.join('\n');
+    }
+
+    const marker = (ruleId: string, sourceXml: string) => {
+        const change = changes.find(c => c.ruleId === ruleId && c.sourceXml === sourceXml);
+        return change?.change === 'broken' ? '+' : change?.change === 'fixed' ? '-' : '';
+    };
+
+    const ruleWidth = Math.max(4, ...rules.map(r => r.length));
+    const cellWidth = Math.max(4, `S${matrix.samples.length}`.length + 1);
+    lines.push(['Rule'.padEnd(ruleWidth), ...matrix.samples.map((_, i) => `S${i + 1}`.padStart(cellWidth))].join(' '));
+
+    for (const ruleId of rules) {
+        const row = matrix.counts.get(ruleId);
+        const cells = matrix.samples.map((sample, i) => {
+            const count = row?.[i] ?? 0;
+            return `${count > 0 ? count : '.'}${marker(ruleId, sample)}`.padStart(cellWidth);
+        });
+        lines.push([ruleId.padEnd(ruleWidth), ...cells].join(' '));
+    }
+
+    return lines.join('\n');
+}
@@ -0,0 +1,118 @@
+import * as fs from 'fs';
+import { detectDocumentFromContent } from '../validation/documentDetector';
+import { IssueSeverity, ValidationResult } from '../validation/types';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { validateDocument, ValidationOptions } from './transformAndValidate';
+
+export type BatchFileStatus = 'passed' | 'failed' | 'skipped';
+
+export interface BatchFileResult {
+    filePath: string;
+    status: BatchFileStatus;
+    /** null when the file is not a UBL or CII document, or could not be read */
+    validationResult: ValidationResult | null;
+    /** Why the file was skipped, or the layer errors that made it fail */
+    errors: string[];
+}
+
+export interface BatchOptions extends ValidationOptions {
+    /** Maximum number of documents validated at the same time */
+    concurrency?: number;
+    /** Called after each file finishes, in completion order */
+    onFileComplete?: (result: BatchFileResult, completed: number, total: number) => void;
+    /** Checked before each file starts; remaining files are left out of the results */
+    isCancelled?: () => boolean;
+}
+
+export interface RuleCount {
+    ruleId: string;
+    count: number;
+}
+
+export interface BatchSummary {
+    total: number;
+    passed: number;
+    failed: number;
+    skipped: number;
+    /** Rule IDs ordered by how many issues they produced across all files */
+    topRules: RuleCount[];
+}
+
+const DEFAULT_CONCURRENCY = 4;
+
+/**
+ * Detects and validates every file with at most `concurrency` documents in
+ * flight. Each validation spawns its own Java/xmllint processes, so the bound
+ * keeps a folder of hundreds of invoices from starting hundreds of JVMs.
+ */
+export async function validateBatch(filePaths: string[], options: BatchOptions): Promise<BatchFileResult[]> {
+    let completed = 0;
+    return mapWithConcurrency(
+        filePaths,
+        options.concurrency ?? DEFAULT_CONCURRENCY,
+        async (filePath) => {
+            const result = await validateFile(filePath, options);
+            completed++;
+            options.onFileComplete?.(result, completed, filePaths.length);
+            return result;
+        },
+        options.isCancelled
+    );
+}
+
+async function validateFile(filePath: string, options: BatchOptions): Promise<BatchFileResult> {
+    let content: string;
+    try {
+        content = await fs.promises.readFile(filePath, 'utf8');
+    } catch (error: any) {
+        return { filePath, status: 'skipped', validationResult: null, errors: [`Cannot read file: ${error.message}`] };
+    }
+
+    const docInfo = detectDocumentFromContent(content);
+    if (!docInfo) {
+        return { filePath, status: 'skipped', validationResult: null, errors: ['Not a UBL 2.1 or CII D16B document'] };
+    }
+
+    const errors: string[] = [];
+    try {
+        const validationResult = await validateDocument(content, docInfo, {
+            artifactsPath: options.artifactsPath,
+            extensionPath: options.extensionPath,
+            validationScope: options.validationScope,
+            onError: (msg) => errors.push(msg),
+        });
+        const hasErrors = validationResult.issues.some(i => i.severity === IssueSeverity.Error);
+        const layerFailed = !validationResult.xsdPassed || validationResult.rulesetResults.some(r => !r.passed);
+        return {
+            filePath,
+            status: hasErrors || layerFailed ? 'failed' : 'passed',
+            validationResult,
+            errors,
+        };
+    } catch (error: any) {
+        return { filePath, status: 'failed', validationResult: null, errors: [...errors, error.message] };
+    }
+}
+
+export function summarizeBatch(results: BatchFileResult[], topRuleLimit = 10): BatchSummary {
+    const ruleCounts = new Map<string, number>();
+    for (const result of results) {
+        for (const issue of result.validationResult?.issues ?? []) {
+            if (issue.ruleId) {
+                ruleCounts.set(issue.ruleId, (ruleCounts.get(issue.ruleId) ?? 0) + 1);
+            }
+        }
+    }
+
+    const topRules = Array.from(ruleCounts, ([ruleId, count]) => ({ ruleId, count }))
+        .sort((a, b) => b.count - a.count || a.ruleId.localeCompare(b.ruleId))
+        .slice(0, topRuleLimit);
+
+    return {
+        total: results.length,
+        passed: results.filter(r => r.status === 'passed').length,
+        failed: results.filter(r => r.status === 'failed').length,
+        skipped: results.filter(r => r.status === 'skipped').length,
+        topRules,
+    };
+}
@@ -0,0 +1,81 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseXmlDocument } from '../xml/xmlDom';
+import { diffXml, XmlDifference } from '../xml/xmlDiff';
+import { SampleBatchOptions, transformSamples } from './batchTransform';
+
+export type MappingTestStatus = 'passed' | 'failed' | 'missing' | 'error';
+
+export interface MappingTestCase {
+    sourceXml: string;
+    /** Golden output file; may not exist yet */
+    snapshotPath: string;
+}
+
+export interface MappingTestResult extends MappingTestCase {
+    status: MappingTestStatus;
+    /** Transform output of this run, '' when the transform failed */
+    output: string;
+    differences: XmlDifference[];
+    error?: string;
+}
+
+/**
+ * Re-runs the transform for each test case and compares the output with its
+ * golden file structurally. A missing golden file is reported as 'missing' so
+ * the caller can offer to record it.
+ */
+export async function runMappingTests(
+    cases: MappingTestCase[],
+    options: SampleBatchOptions
+): Promise<MappingTestResult[]> {
+    const snapshotFor = new Map(cases.map(c => [c.sourceXml, c.snapshotPath]));
+    const samples = await transformSamples(cases.map(c => c.sourceXml), options);
+
+    return samples.map(sample => {
+        const snapshotPath = snapshotFor.get(sample.sourceXml)!;
+        const base = { sourceXml: sample.sourceXml, snapshotPath };
+
+        if (!sample.result) {
+            return { ...base, status: 'error', output: '', differences: [], error: sample.errors.join('; ') };
+        }
+        const output = sample.result.output;
+        if (!fs.existsSync(snapshotPath)) {
+            return { ...base, status: 'missing', output, differences: [] };
+        }
+
+        try {
+            const expected = parseXmlDocument(fs.readFileSync(snapshotPath, 'utf8'));
+            const actual = parseXmlDocument(output);
+            const differences = diffXml(expected.root, actual.root);
+            return { ...base, status: differences.length === 0 ? 'passed' : 'failed', output, differences };
+        } catch (error: any) {
+            return { ...base, status: 'error', output, differences: [], error: `Cannot compare: ${error.message}` };
+        }
+    });
+}
+
+/** Writes this run's output as the new golden file */
+export function acceptSnapshot(result: MappingTestResult): void {
+    fs.mkdirSync(path.dirname(result.snapshotPath), { recursive: true });
+    fs.writeFileSync(result.snapshotPath, result.output, 'utf8');
+}
+
+export function describeDifference(difference: XmlDifference): string {
+    switch (difference.kind) {
+        case 'element-added':
+            return `unexpected element ${difference.path}`;
+        case 'element-removed':
+            return `missing element ${difference.path}`;
+        case 'element-renamed':
+            return `root element is ${difference.actual}, expected ${difference.expected}`;
+        case 'text-changed':
+            return `${difference.path}: text "${difference.actual}", expected "${difference.expected}"`;
+        case 'attribute-added':
+            return `unexpected attribute ${difference.path}="${difference.actual}"`;
+        case 'attribute-removed':
+            return `missing attribute ${difference.path}="${difference.expected}"`;
+        case 'attribute-changed':
+            return `${difference.path}: "${difference.actual}", expected "${difference.expected}"`;
+    }
+}
@@ -1,34 +1,60 @@
-import * as vscode from 'vscode';
-import { execAsync, checkToolAvailable, getInstallInstructions } from '../utils/execAsync';
-import { detectUblDocumentFromContent } from '../validation/documentDetector';
-import { validateXsdFromContent } from '../validation/xsdValidator';
+import { execAsync, checkToolAvailable } from '../utils/execAsync';
+import { detectDocumentFromContent } from '../validation/documentDetector';
+import { isXsdInstalled, validateXsdFromContent } from '../validation/xsdValidator';
 import { validateSchematronFromContent } from '../validation/schematronValidator';
-import { UblDocumentInfo, ValidationIssue, ValidationResult, ValidationScope } from '../validation/types';
+import { ActivePattern, DocumentInfo, IssueSeverity, ValidationIssue, ValidationResult, ValidationScope } from '../validation/types';
 import { runInstrumentedTransform, TraceEntry } from '../tracing/xsltTracer';
 import { mapIssuesToXsltSource, TracedIssue } from '../tracing/errorTraceMapper';
 import { runSaxonTransform } from '../utils/javaRunner';
+import { RulesetDefinition, selectRulesets } from '../validation/rulesetRegistry';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { getCachedValidation, storeCachedValidation, validationCacheKey } from '../validation/validationCache';
 
 export interface TransformResult {
     output: string;
-    isUbl: boolean;
-    documentInfo: UblDocumentInfo | null;
+    /** True when the output was recognized as UBL or CII and validated */
+    isValidated: boolean;
+    documentInfo: DocumentInfo | null;
     validationResult: ValidationResult | null;
     tracedIssues?: TracedIssue[];
     traceEntries?: TraceEntry[];
 }
 
-export interface PipelineOptions {
-    sourceXml: string;
-    xsltStylesheet: string;
+export interface ValidationOptions {
     artifactsPath: string;
     extensionPath: string;
     validationScope?: ValidationScope;
-    enableTracing?: boolean;
+    /** Validation passes (XSD, each ruleset) run at the same time; see setValidationPassConcurrency */
+    passConcurrency?: number;
+    /** Aborts the Java/xmllint runs in flight; the result of an aborted run is incomplete */
+    signal?: AbortSignal;
     onProgress?: (message: string) => void;
+    /** Called when a validation layer fails to run; defaults to console.error */
+    onError?: (message: string) => void;
+}
+
+export interface PipelineOptions extends ValidationOptions {
+    sourceXml: string;
+    xsltStylesheet: string;
+    enableTracing?: boolean;
+}
+
+interface ValidationPass {
+    label: string;
+    run: () => Promise<ValidationIssue[]>;
+    /** Records the pass outcome on the result; issues is null when the pass failed to run */
+    complete: (issues: ValidationIssue[] | null, durationMs?: number) => void;
+}
+
+let defaultPassConcurrency = 3;
+
+/** Sets how many validation passes run at once when options don't say */
+export function setValidationPassConcurrency(limit: number): void {
+    defaultPassConcurrency = Math.max(1, Math.floor(limit));
 }
 
 export async function transformAndValidate(options: PipelineOptions): Promise<TransformResult> {
-    const { sourceXml, xsltStylesheet, artifactsPath, extensionPath, validationScope = 'full', enableTracing = false, onProgress } = options;
+    const { sourceXml, xsltStylesheet, extensionPath, enableTracing = false, onProgress } = options;
 
     const progress = (msg: string) => onProgress?.(msg);
 
@@ -63,85 +89,197 @@ export async function transformAndValidate(options: PipelineOptions): Promise<Tr
         }
     }
 
-    // Step 2: Detect if output is UBL
+    // Step 2: Detect if output is UBL or CII
     progress('Detecting document type...');
-    const docInfo = detectUblDocumentFromContent(output);
+    const docInfo = detectDocumentFromContent(output);
 
     if (!docInfo) {
-        // Not UBL - return output without validation
+        // Not an e-invoice document - return output without validation
         return {
             output,
-            isUbl: false,
+            isValidated: false,
             documentInfo: null,
             validationResult: null,
+            traceEntries: enableTracing ? traceEntries : undefined,
+        };
+    }
+
+    // Step 3: Output is a known document - run validation
+    const validationResult = await validateDocument(output, docInfo, options);
+
+    const tracedIssues = enableTracing
+        ? mapIssuesToXsltSource(validationResult.issues, traceEntries)
+        : undefined;
+
+    return {
+        output,
+        isValidated: true,
+        documentInfo: docInfo,
+        validationResult,
+        tracedIssues,
+        traceEntries: enableTracing ? traceEntries : undefined,
+    };
+}
+
+/**
+ * Runs XSD and business-rule validation on an already detected UBL or CII document.
+ * Layer failures (Java errors, a broken install) are reported through
+ * onError and mark the layer as failed instead of aborting the whole run.
+ * Layers whose artifacts only come with the download script (CII schemas,
+ * some rulesets) are skipped with a warning issue and don't pass either, so
+ * a document they never checked can't come out as valid.
+ * Results of clean runs are cached by content and artifacts version, so
+ * re-validating identical output returns immediately.
+ */
+export async function validateDocument(
+    content: string,
+    docInfo: DocumentInfo,
+    options: ValidationOptions
+): Promise<ValidationResult> {
+    const { artifactsPath, extensionPath, validationScope = 'full', onProgress, signal } = options;
+
+    const progress = (msg: string) => onProgress?.(msg);
+    const onError = options.onError ?? ((msg: string) => console.error(msg));
+    let layerFailed = false;
+    const reportError = (msg: string) => {
+        layerFailed = true;
+        onError(msg);
+    };
+
+    const startedAt = Date.now();
+    const cacheKey = await validationCacheKey(content, artifactsPath, validationScope);
+    const cached = cacheKey ? getCachedValidation(cacheKey) : undefined;
+    if (cached) {
+        progress('Using cached validation result...');
+        return {
+            ...cached,
+            issues: [...cached.issues],
+            documentInfo: docInfo,
+            durationMs: Date.now() - startedAt,
+            fromCache: true,
         };
     }
 
-    // Step 3: Output is UBL - run validation
-    const allIssues: ValidationIssue[] = [];
     const validationResult: ValidationResult = {
         issues: [],
         documentInfo: docInfo,
         xsdPassed: true,
-        en16931Passed: null,
-        peppolPassed: null,
+        rulesetResults: [],
     };
 
-    // XSD validation
-    if (validationScope === 'full' || validationScope === 'xsd-only') {
-        progress('Running XSD validation...');
-        try {
-            const xsdIssues = await validateXsdFromContent(output, docInfo, artifactsPath, extensionPath);
-            allIssues.push(...xsdIssues);
-            validationResult.xsdPassed = xsdIssues.length === 0;
-        } catch (error: any) {
-            vscode.window.showErrorMessage(`XSD validation error: ${error.message}`);
-            validationResult.xsdPassed = false;
-        }
+    const passes: ValidationPass[] = [];
+    // Issues explaining the layers skipped because their artifacts are not installed
+    const notInstalled: ValidationIssue[] = [];
+
+    // XSD validation; the CII schemas are optional, and a document without them
+    // is not validated, so the layer doesn't pass
+    if ((validationScope === 'full' || validationScope === 'xsd-only')
+        && docInfo.syntax === 'cii' && !isXsdInstalled(docInfo, artifactsPath)) {
+        notInstalled.push(notInstalledIssue('xsd', 'CII D16B schemas are not installed, so XSD validation was skipped.'));
+        validationResult.xsdPassed = false;
+        layerFailed = true;
+    } else if (validationScope === 'full' || validationScope === 'xsd-only') {
+        passes.push({
+            label: 'XSD validation',
+            run: () => validateXsdFromContent(content, docInfo, artifactsPath, extensionPath, signal),
+            complete: (issues, durationMs) => {
+                validationResult.xsdPassed = issues !== null && issues.length === 0;
+                validationResult.xsdDurationMs = durationMs;
+            },
+        });
     }
 
-    // EN16931 business rules (Invoice and CreditNote only)
+    // Schematron business rules (Invoice and CreditNote only): core EN16931
+    // plus the CIUS rulesets selected by the document's CustomizationID
     if ((validationScope === 'full' || validationScope === 'business-rules-only') && docInfo.isInvoiceOrCreditNote) {
-        progress('Checking EN16931 business rules...');
+        let rulesets: RulesetDefinition[] = [];
         try {
-            const en16931Issues = await validateSchematronFromContent(output, 'en16931', artifactsPath, extensionPath);
-            allIssues.push(...en16931Issues);
-            validationResult.en16931Passed = en16931Issues.filter(
-                i => i.severity === vscode.DiagnosticSeverity.Error
-            ).length === 0;
+            const selection = selectRulesets(artifactsPath, docInfo);
+            rulesets = selection.rulesets;
+            for (const ruleset of selection.missing) {
+                notInstalled.push(notInstalledIssue(ruleset.id, `${ruleset.label} rules are not installed (${ruleset.xslt}), so they were skipped.`));
+                validationResult.rulesetResults.push({ id: ruleset.id, label: ruleset.label, passed: false });
+                layerFailed = true;
+            }
         } catch (error: any) {
-            vscode.window.showErrorMessage(`EN16931 validation error: ${error.message}`);
-            validationResult.en16931Passed = false;
+            reportError(`Business rules validation error: ${error.message}`);
         }
-    }
 
-    // Peppol BIS 3.0 rules (Invoice and CreditNote only)
-    if ((validationScope === 'full' || validationScope === 'business-rules-only') && docInfo.isInvoiceOrCreditNote) {
-        progress('Checking Peppol BIS 3.0 rules...');
-        try {
-            const peppolIssues = await validateSchematronFromContent(output, 'peppol', artifactsPath, extensionPath);
-            allIssues.push(...peppolIssues);
-            validationResult.peppolPassed = peppolIssues.filter(
-                i => i.severity === vscode.DiagnosticSeverity.Error
-            ).length === 0;
-        } catch (error: any) {
-            vscode.window.showErrorMessage(`Peppol validation error: ${error.message}`);
-            validationResult.peppolPassed = false;
+        for (const ruleset of rulesets) {
+            let activePatterns: ActivePattern[] | undefined;
+            let complete = true;
+            passes.push({
+                label: `${ruleset.label} rules`,
+                run: async () => {
+                    const report = await validateSchematronFromContent(content, ruleset.id, artifactsPath, extensionPath, signal);
+                    activePatterns = report.activePatterns;
+                    complete = report.complete;
+                    if (!complete && !signal?.aborted) {
+                        // Keep the issues reported so far, but the ruleset didn't finish
+                        reportError(`${ruleset.label} rules error: Schematron run ended without a complete SVRL report`);
+                    }
+                    return report.issues;
+                },
+                complete: (issues, durationMs) => validationResult.rulesetResults.push({
+                    id: ruleset.id,
+                    label: ruleset.label,
+                    passed: issues !== null && complete && issues.filter(i => i.severity === IssueSeverity.Error).length === 0,
+                    durationMs,
+                    activePatterns,
+                }),
+            });
         }
     }
 
-    validationResult.issues = allIssues;
+    // The passes only read the document, so they run side by side; results
+    // are merged in pass order so issue order doesn't depend on timing
+    let finished = 0;
+    const durations: number[] = [];
+    const passIssues = await mapWithConcurrency(
+        passes,
+        options.passConcurrency ?? defaultPassConcurrency,
+        async (pass, index) => {
+            progress(`Running ${pass.label}...`);
+            const passStartedAt = Date.now();
+            let issues: ValidationIssue[] | null;
+            try {
+                issues = await pass.run();
+            } catch (error: any) {
+                if (!signal?.aborted) {
+                    reportError(`${pass.label} error: ${error.message}`);
+                }
+                issues = null;
+            }
+            durations[index] = Date.now() - passStartedAt;
+            progress(`${pass.label} ${issues === null ? 'failed' : 'done'} (${++finished}/${passes.length})`);
+            return issues;
+        },
+        () => signal?.aborted ?? false
+    );
 
-    const tracedIssues = enableTracing
-        ? mapIssuesToXsltSource(allIssues, traceEntries)
-        : undefined;
+    // Passes start in order, so the ones skipped after an abort are the trailing ones
+    passes.forEach((pass, index) => pass.complete(passIssues[index] ?? null, durations[index]));
+    const allIssues = [...notInstalled, ...passIssues.flatMap(issues => issues ?? [])];
+    if (signal?.aborted) {
+        layerFailed = true;
+    }
 
+    validationResult.issues = allIssues;
+    validationResult.durationMs = Date.now() - startedAt;
+    // Failed layers may succeed next time (e.g. once Java is installed), so don't cache them
+    if (cacheKey && !layerFailed) {
+        storeCachedValidation(cacheKey, validationResult);
+    }
+    return validationResult;
+}
+
+/** Explains a validation layer skipped because its artifacts are missing; the layer itself is marked as not passed */
+function notInstalledIssue(source: string, message: string): ValidationIssue {
     return {
-        output,
-        isUbl: true,
-        documentInfo: docInfo,
-        validationResult,
-        tracedIssues,
-        traceEntries: enableTracing ? traceEntries : undefined,
+        line: 1,
+        column: 0,
+        message: `${message} Run scripts/download-artifacts.sh to install them.`,
+        severity: IssueSeverity.Warning,
+        source,
     };
 }
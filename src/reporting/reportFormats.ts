@@ -0,0 +1,326 @@
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { IssueSeverity, RulesetOutcome, ValidationResult } from '../validation/types';
+import { addBusinessTerms, TracedIssue } from '../tracing/errorTraceMapper';
+import { getBusinessTerm } from '../semantic/businessTerms';
+import { lookupRule } from '../validation/ruleCatalog';
+
+export type ReportFormat = 'json' | 'junit' | 'sarif';
+
+export const REPORT_FILE_EXTENSIONS: Record<ReportFormat, string> = {
+    json: '.json',
+    junit: '.xml',
+    sarif: '.sarif',
+};
+
+/**
+ * Snapshot of a finished validation run, kept after diagnostics are replaced
+ * so it can be exported for tickets and code-scanning dashboards.
+ */
+export interface ValidationReport {
+    /** File path of the validated document, or a URI string for unsaved output */
+    documentPath: string;
+    sourceXml?: string;
+    xsltStylesheet?: string;
+    generatedAt: string;
+    result: ValidationResult;
+    issues: TracedIssue[];
+}
+
+const TOOL_NAME = 'ubl-validate';
+const TOOL_URI = 'https://github.com/vasilcinandrei/xslt-transformer-vscode';
+
+export function createValidationReport(
+    documentPath: string,
+    result: ValidationResult,
+    tracedIssues?: TracedIssue[],
+    transform?: { sourceXml: string; xsltStylesheet: string }
+): ValidationReport {
+    return {
+        documentPath,
+        sourceXml: transform?.sourceXml,
+        xsltStylesheet: transform?.xsltStylesheet,
+        generatedAt: new Date().toISOString(),
+        result,
+        issues: addBusinessTerms(tracedIssues ?? result.issues),
+    };
+}
+
+/**
+ * artifactsPath, when given, lets SARIF describe each rule with its catalog
+ * text rather than a generic label.
+ */
+export function formatReport(report: ValidationReport, format: ReportFormat, artifactsPath?: string): string {
+    switch (format) {
+        case 'json':
+            return formatJson(report);
+        case 'junit':
+            return formatJUnit(report);
+        case 'sarif':
+            return formatSarif(report, artifactsPath);
+    }
+}
+
+function severityName(severity: IssueSeverity): 'error' | 'warning' | 'info' {
+    switch (severity) {
+        case IssueSeverity.Error:
+            return 'error';
+        case IssueSeverity.Warning:
+            return 'warning';
+        default:
+            return 'info';
+    }
+}
+
+function countBySeverity(issues: TracedIssue[], severity: IssueSeverity): number {
+    return issues.filter(i => i.severity === severity).length;
+}
+
+function formatJson(report: ValidationReport): string {
+    const { result, issues } = report;
+    const json = {
+        tool: TOOL_NAME,
+        generatedAt: report.generatedAt,
+        document: {
+            path: report.documentPath,
+            rootElement: result.documentInfo?.rootElement ?? null,
+            documentType: result.documentInfo?.documentType ?? null,
+            namespace: result.documentInfo?.namespace ?? null,
+        },
+        transform: report.xsltStylesheet
+            ? { sourceXml: report.sourceXml, xsltStylesheet: report.xsltStylesheet }
+            : null,
+        summary: {
+            errors: countBySeverity(issues, IssueSeverity.Error),
+            warnings: countBySeverity(issues, IssueSeverity.Warning),
+            information: countBySeverity(issues, IssueSeverity.Information),
+            xsdPassed: result.xsdPassed,
+            rulesets: result.rulesetResults,
+        },
+        issues: issues.map(issue => ({
+            ruleId: issue.ruleId ?? null,
+            severity: severityName(issue.severity),
+            source: issue.source,
+            message: issue.message,
+            line: issue.line,
+            column: issue.column,
+            endLine: issue.endLine ?? null,
+            endColumn: issue.endColumn ?? null,
+            location: issue.location ?? null,
+            schematron: issue.schematron ?? null,
+            businessTerm: issue.businessTerm
+                ? { id: issue.businessTerm, name: getBusinessTerm(issue.businessTerm)?.name ?? null }
+                : null,
+            xsltSource: issue.xsltSourceFile
+                ? {
+                    file: issue.xsltSourceFile,
+                    line: issue.xsltSourceLine ?? null,
+                    element: issue.xsltElementName ?? null,
+                }
+                : null,
+        })),
+    };
+    return JSON.stringify(json, null, 2) + '\n';
+}
+
+/** XSD plus every Schematron ruleset that ran, in validation order */
+function getLayers(result: ValidationResult): RulesetOutcome[] {
+    return [{ id: 'xsd', label: 'XSD', passed: result.xsdPassed }, ...result.rulesetResults];
+}
+
+function layerLabel(result: ValidationResult, source: string): string {
+    return getLayers(result).find(l => l.id === source)?.label ?? source;
+}
+
+/**
+ * JUnit XML: one testsuite per validation layer, one testcase per issue.
+ * Errors become failures; warnings and information are passing testcases
+ * with the message in system-out. A layer that passed cleanly gets a single
+ * passing testcase so dashboards still show it ran.
+ */
+function formatJUnit(report: ValidationReport): string {
+    const { result, issues } = report;
+
+    const suites: string[] = [];
+    let totalTests = 0;
+    let totalFailures = 0;
+
+    for (const { id: layer, label, passed } of getLayers(result)) {
+        const layerIssues = issues.filter(i => i.source === layer);
+
+        const cases: string[] = [];
+        let failures = 0;
+
+        if (layerIssues.length === 0) {
+            if (!passed) {
+                failures++;
+            }
+            cases.push(
+                `    <testcase classname="ubl.${layer}" name="${escapeXml(label)}">` +
+                (passed ? '' : `<failure type="error" message="Validation layer did not complete"/>`) +
+                '</testcase>'
+            );
+        }
+
+        for (const issue of layerIssues) {
+            const name = `${issue.ruleId ?? label} (line ${issue.line})`;
+            const details = issueDetails(report, issue);
+            if (issue.severity === IssueSeverity.Error) {
+                failures++;
+                cases.push(
+                    `    <testcase classname="ubl.${layer}" name="${escapeXml(name)}">\n` +
+                    `      <failure type="error" message="${escapeXml(issue.message)}">${escapeXml(details)}</failure>\n` +
+                    '    </testcase>'
+                );
+            } else {
+                cases.push(
+                    `    <testcase classname="ubl.${layer}" name="${escapeXml(name)}">\n` +
+                    `      <system-out>${escapeXml(`${severityName(issue.severity)}: ${issue.message}\n${details}`)}</system-out>\n` +
+                    '    </testcase>'
+                );
+            }
+        }
+
+        totalTests += cases.length;
+        totalFailures += failures;
+        suites.push(
+            `  <testsuite name="${escapeXml(label)}" tests="${cases.length}" failures="${failures}" ` +
+            `timestamp="${report.generatedAt}">\n${cases.join('\n')}\n  </testsuite>`
+        );
+    }
+
+    return '<?xml version="1.0" encoding="UTF-8"?>\n' +
+        `<testsuites name="UBL Validation: ${escapeXml(report.documentPath)}" tests="${totalTests}" failures="${totalFailures}">\n` +
+        (suites.length > 0 ? suites.join('\n') + '\n' : '') +
+        '</testsuites>\n';
+}
+
+function issueDetails(report: ValidationReport, issue: TracedIssue): string {
+    const lines = [`Document: ${report.documentPath}:${issue.line}`];
+    if (issue.location) {
+        lines.push(`XPath: ${issue.location}`);
+    }
+    if (issue.xsltSourceFile) {
+        const element = issue.xsltElementName ? ` <${issue.xsltElementName}>` : '';
+        lines.push(`XSLT source: ${issue.xsltSourceFile}:${issue.xsltSourceLine ?? 1}${element}`);
+    }
+    return lines.join('\n');
+}
+
+interface SarifRegion {
+    startLine: number;
+    startColumn?: number;
+    endLine?: number;
+    endColumn?: number;
+}
+
+interface SarifLocation {
+    id?: number;
+    physicalLocation: {
+        artifactLocation: { uri: string };
+        region: SarifRegion;
+    };
+    logicalLocations?: Array<{ fullyQualifiedName: string; kind: string }>;
+    message?: { text: string };
+}
+
+interface SarifResult {
+    ruleId: string;
+    level: 'error' | 'warning' | 'note';
+    message: { text: string };
+    locations: SarifLocation[];
+    relatedLocations?: SarifLocation[];
+    properties: { source: string };
+}
+
+/** What a rule checks, independent of any one failing instance */
+function ruleDescription(report: ValidationReport, issue: TracedIssue, artifactsPath?: string): string {
+    const layer = layerLabel(report.result, issue.source);
+    if (!issue.ruleId) {
+        return `${layer} validation`;
+    }
+    const rules = artifactsPath ? lookupRule(artifactsPath, issue.ruleId) : [];
+    const rule = rules.find(r => r.rulesetId === issue.source) ?? rules[0];
+    return rule?.text ?? `${layer} rule ${issue.ruleId}`;
+}
+
+function formatSarif(report: ValidationReport, artifactsPath?: string): string {
+    const rules = new Map<string, { id: string; shortDescription: { text: string } }>();
+    const documentUri = toArtifactUri(report.documentPath);
+
+    const results = report.issues.map(issue => {
+        const ruleId = issue.ruleId ?? issue.source.toUpperCase();
+        if (!rules.has(ruleId)) {
+            rules.set(ruleId, {
+                id: ruleId,
+                shortDescription: { text: ruleDescription(report, issue, artifactsPath) },
+            });
+        }
+
+        const location: SarifLocation = {
+            physicalLocation: {
+                artifactLocation: { uri: documentUri },
+                region: { startLine: Math.max(1, issue.line), startColumn: issue.column + 1 },
+            },
+        };
+        if (issue.endLine !== undefined && issue.endColumn !== undefined) {
+            location.physicalLocation.region.endLine = issue.endLine;
+            location.physicalLocation.region.endColumn = issue.endColumn + 1;
+        }
+        if (issue.location) {
+            location.logicalLocations = [{ fullyQualifiedName: issue.location, kind: 'element' }];
+        }
+
+        const sarifResult: SarifResult = {
+            ruleId,
+            level: issue.severity === IssueSeverity.Error ? 'error'
+                : issue.severity === IssueSeverity.Warning ? 'warning' : 'note',
+            message: { text: issue.message },
+            locations: [location],
+            properties: { source: issue.source },
+        };
+
+        if (issue.xsltSourceFile && issue.xsltSourceLine) {
+            const element = issue.xsltElementName ? `<${issue.xsltElementName}>` : 'element';
+            sarifResult.relatedLocations = [{
+                id: 1,
+                physicalLocation: {
+                    artifactLocation: { uri: toArtifactUri(issue.xsltSourceFile) },
+                    region: { startLine: issue.xsltSourceLine },
+                },
+                message: { text: `Produced by ${element} in XSLT at line ${issue.xsltSourceLine}` },
+            }];
+        }
+
+        return sarifResult;
+    });
+
+    const sarif = {
+        $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+        version: '2.1.0',
+        runs: [{
+            tool: {
+                driver: {
+                    name: TOOL_NAME,
+                    informationUri: TOOL_URI,
+                    rules: Array.from(rules.values()),
+                },
+            },
+            invocations: [{ executionSuccessful: true, endTimeUtc: report.generatedAt }],
+            results,
+        }],
+    };
+    return JSON.stringify(sarif, null, 2) + '\n';
+}
+
+function toArtifactUri(filePath: string): string {
+    return path.isAbsolute(filePath) ? pathToFileURL(filePath).href : filePath;
+}
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
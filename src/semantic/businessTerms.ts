@@ -0,0 +1,507 @@
+import { childElements, directText, XmlElement } from '../xml/xmlDom';
+
+/**
+ * EN16931 semantic model terms (BT = business term, BG = business group)
+ * and where the UBL 2.1 binding puts them. Paths use local names relative
+ * to the Invoice/CreditNote root; CreditNote-specific names are normalised
+ * to their Invoice counterparts before matching (see CREDIT_NOTE_NAMES).
+ */
+export interface BusinessTerm {
+    id: string;
+    name: string;
+    kind: 'BT' | 'BG';
+    /** Enclosing business group, e.g. BG-4 for BT-31 */
+    group?: string;
+    path: string;
+}
+
+interface GroupDefinition {
+    id: string;
+    name: string;
+    /** Omitted for groups whose terms sit directly on the document */
+    path?: string;
+    parent?: string;
+    /** [id, name, path relative to the group] */
+    terms: Array<[string, string, string]>;
+}
+
+interface StepPredicate {
+    /** Child path ("TaxScheme/ID") or attribute ("@schemeID") */
+    path: string;
+    operator: '=' | '!=';
+    /** Literal, or a root-relative path ("/TaxCurrencyCode") whose text is compared */
+    value: string;
+}
+
+interface PathStep {
+    name: string;
+    predicates: StepPredicate[];
+}
+
+const CREDIT_NOTE_NAMES: Record<string, string> = {
+    CreditNoteLine: 'InvoiceLine',
+    CreditedQuantity: 'InvoicedQuantity',
+    CreditNoteTypeCode: 'InvoiceTypeCode',
+};
+
+function addressTerms(ids: string[], party: string): Array<[string, string, string]> {
+    const paths = ['StreetName', 'AdditionalStreetName', 'AddressLine/Line', 'CityName', 'PostalZone', 'CountrySubentity', 'Country/IdentificationCode'];
+    const names = ['address line 1', 'address line 2', 'address line 3', 'city', 'post code', 'country subdivision', 'country code'];
+    return ids.map((id, i) => [id, `${party} ${names[i]}`, paths[i]]);
+}
+
+// Terms directly on the document, outside any business group
+const DOCUMENT_TERMS: Array<[string, string, string]> = [
+    ['BT-1', 'Invoice number', 'ID'],
+    ['BT-2', 'Invoice issue date', 'IssueDate'],
+    ['BT-3', 'Invoice type code', 'InvoiceTypeCode'],
+    ['BT-5', 'Invoice currency code', 'DocumentCurrencyCode'],
+    ['BT-6', 'VAT accounting currency code', 'TaxCurrencyCode'],
+    ['BT-7', 'Value added tax point date', 'TaxPointDate'],
+    ['BT-9', 'Payment due date', 'DueDate'],
+    ['BT-9', 'Payment due date', 'PaymentMeans/PaymentDueDate'],
+    ['BT-10', 'Buyer reference', 'BuyerReference'],
+    ['BT-11', 'Project reference', 'ProjectReference/ID'],
+    ['BT-11', 'Project reference', "AdditionalDocumentReference[DocumentTypeCode='50']/ID"],
+    ['BT-12', 'Contract reference', 'ContractDocumentReference/ID'],
+    ['BT-13', 'Purchase order reference', 'OrderReference/ID'],
+    ['BT-14', 'Sales order reference', 'OrderReference/SalesOrderID'],
+    ['BT-15', 'Receiving advice reference', 'ReceiptDocumentReference/ID'],
+    ['BT-16', 'Despatch advice reference', 'DespatchDocumentReference/ID'],
+    ['BT-17', 'Tender or lot reference', 'OriginatorDocumentReference/ID'],
+    ['BT-18', 'Invoiced object identifier', "AdditionalDocumentReference[DocumentTypeCode='130']/ID"],
+    ['BT-19', 'Buyer accounting reference', 'AccountingCost'],
+    ['BT-20', 'Payment terms', 'PaymentTerms/Note'],
+];
+
+/**
+ * Where several entries share a path, the one whose predicates hold wins;
+ * without an element to check (SVRL locations) the first entry is used.
+ */
+const GROUPS: GroupDefinition[] = [
+    { id: 'BG-1', name: 'Invoice note', terms: [['BT-22', 'Invoice note', 'Note']] },
+    {
+        id: 'BG-2', name: 'Process control', terms: [
+            ['BT-23', 'Business process type', 'ProfileID'],
+            ['BT-24', 'Specification identifier', 'CustomizationID'],
+        ],
+    },
+    {
+        id: 'BG-3', name: 'Preceding invoice reference', path: 'BillingReference/InvoiceDocumentReference', terms: [
+            ['BT-25', 'Preceding invoice reference', 'ID'],
+            ['BT-26', 'Preceding invoice issue date', 'IssueDate'],
+        ],
+    },
+    {
+        id: 'BG-4', name: 'Seller', path: 'AccountingSupplierParty', terms: [
+            ['BT-27', 'Seller name', 'Party/PartyLegalEntity/RegistrationName'],
+            ['BT-28', 'Seller trading name', 'Party/PartyName/Name'],
+            ['BT-29', 'Seller identifier', "Party/PartyIdentification/ID[@schemeID!='SEPA']"],
+            ['BT-90', 'Bank assigned creditor identifier', "Party/PartyIdentification/ID[@schemeID='SEPA']"],
+            ['BT-30', 'Seller legal registration identifier', 'Party/PartyLegalEntity/CompanyID'],
+            ['BT-31', 'Seller VAT identifier', "Party/PartyTaxScheme[TaxScheme/ID='VAT']/CompanyID"],
+            ['BT-32', 'Seller tax registration identifier', 'Party/PartyTaxScheme/CompanyID'],
+            ['BT-33', 'Seller additional legal information', 'Party/PartyLegalEntity/CompanyLegalForm'],
+            ['BT-34', 'Seller electronic address', 'Party/EndpointID'],
+        ],
+    },
+    {
+        id: 'BG-5', name: 'Seller postal address', path: 'AccountingSupplierParty/Party/PostalAddress', parent: 'BG-4',
+        terms: addressTerms(['BT-35', 'BT-36', 'BT-162', 'BT-37', 'BT-38', 'BT-39', 'BT-40'], 'Seller'),
+    },
+    {
+        id: 'BG-6', name: 'Seller contact', path: 'AccountingSupplierParty/Party/Contact', parent: 'BG-4', terms: [
+            ['BT-41', 'Seller contact point', 'Name'],
+            ['BT-42', 'Seller contact telephone number', 'Telephone'],
+            ['BT-43', 'Seller contact email address', 'ElectronicMail'],
+        ],
+    },
+    {
+        id: 'BG-7', name: 'Buyer', path: 'AccountingCustomerParty', terms: [
+            ['BT-44', 'Buyer name', 'Party/PartyLegalEntity/RegistrationName'],
+            ['BT-45', 'Buyer trading name', 'Party/PartyName/Name'],
+            ['BT-46', 'Buyer identifier', 'Party/PartyIdentification/ID'],
+            ['BT-47', 'Buyer legal registration identifier', 'Party/PartyLegalEntity/CompanyID'],
+            ['BT-48', 'Buyer VAT identifier', 'Party/PartyTaxScheme/CompanyID'],
+            ['BT-49', 'Buyer electronic address', 'Party/EndpointID'],
+        ],
+    },
+    {
+        id: 'BG-8', name: 'Buyer postal address', path: 'AccountingCustomerParty/Party/PostalAddress', parent: 'BG-7',
+        terms: addressTerms(['BT-50', 'BT-51', 'BT-163', 'BT-52', 'BT-53', 'BT-54', 'BT-55'], 'Buyer'),
+    },
+    {
+        id: 'BG-9', name: 'Buyer contact', path: 'AccountingCustomerParty/Party/Contact', parent: 'BG-7', terms: [
+            ['BT-56', 'Buyer contact point', 'Name'],
+            ['BT-57', 'Buyer contact telephone number', 'Telephone'],
+            ['BT-58', 'Buyer contact email address', 'ElectronicMail'],
+        ],
+    },
+    {
+        id: 'BG-10', name: 'Payee', path: 'PayeeParty', terms: [
+            ['BT-59', 'Payee name', 'PartyName/Name'],
+            ['BT-60', 'Payee identifier', "PartyIdentification/ID[@schemeID!='SEPA']"],
+            ['BT-90', 'Bank assigned creditor identifier', "PartyIdentification/ID[@schemeID='SEPA']"],
+            ['BT-61', 'Payee legal registration identifier', 'PartyLegalEntity/CompanyID'],
+        ],
+    },
+    {
+        id: 'BG-11', name: 'Seller tax representative party', path: 'TaxRepresentativeParty', terms: [
+            ['BT-62', 'Seller tax representative name', 'PartyName/Name'],
+            ['BT-63', 'Seller tax representative VAT identifier', 'PartyTaxScheme/CompanyID'],
+        ],
+    },
+    {
+        id: 'BG-12', name: 'Seller tax representative postal address', path: 'TaxRepresentativeParty/PostalAddress', parent: 'BG-11',
+        terms: addressTerms(['BT-64', 'BT-65', 'BT-164', 'BT-66', 'BT-67', 'BT-68', 'BT-69'], 'Tax representative'),
+    },
+    {
+        id: 'BG-13', name: 'Delivery information', path: 'Delivery', terms: [
+            ['BT-70', 'Deliver to party name', 'DeliveryParty/PartyName/Name'],
+            ['BT-71', 'Deliver to location identifier', 'DeliveryLocation/ID'],
+            ['BT-72', 'Actual delivery date', 'ActualDeliveryDate'],
+        ],
+    },
+    {
+        id: 'BG-14', name: 'Invoicing period', path: 'InvoicePeriod', terms: [
+            ['BT-73', 'Invoicing period start date', 'StartDate'],
+            ['BT-74', 'Invoicing period end date', 'EndDate'],
+            ['BT-8', 'Value added tax point date code', 'DescriptionCode'],
+        ],
+    },
+    {
+        id: 'BG-15', name: 'Deliver to address', path: 'Delivery/DeliveryLocation/Address', parent: 'BG-13',
+        terms: addressTerms(['BT-75', 'BT-76', 'BT-165', 'BT-77', 'BT-78', 'BT-79', 'BT-80'], 'Deliver to'),
+    },
+    {
+        id: 'BG-16', name: 'Payment instructions', path: 'PaymentMeans', terms: [
+            ['BT-81', 'Payment means type code', 'PaymentMeansCode'],
+            ['BT-83', 'Remittance information', 'PaymentID'],
+        ],
+    },
+    {
+        id: 'BG-17', name: 'Credit transfer', path: 'PaymentMeans/PayeeFinancialAccount', parent: 'BG-16', terms: [
+            ['BT-84', 'Payment account identifier', 'ID'],
+            ['BT-85', 'Payment account name', 'Name'],
+            ['BT-86', 'Payment service provider identifier', 'FinancialInstitutionBranch/ID'],
+        ],
+    },
+    {
+        id: 'BG-18', name: 'Payment card information', path: 'PaymentMeans/CardAccount', parent: 'BG-16', terms: [
+            ['BT-87', 'Payment card primary account number', 'PrimaryAccountNumberID'],
+            ['BT-88', 'Payment card holder name', 'HolderName'],
+        ],
+    },
+    {
+        id: 'BG-19', name: 'Direct debit', path: 'PaymentMeans/PaymentMandate', parent: 'BG-16', terms: [
+            ['BT-89', 'Mandate reference identifier', 'ID'],
+            ['BT-91', 'Debited account identifier', 'PayerFinancialAccount/ID'],
+        ],
+    },
+    {
+        id: 'BG-20', name: 'Document level allowances', path: "AllowanceCharge[ChargeIndicator='false']", terms: [
+            ['BT-92', 'Document level allowance amount', 'Amount'],
+            ['BT-93', 'Document level allowance base amount', 'BaseAmount'],
+            ['BT-94', 'Document level allowance percentage', 'MultiplierFactorNumeric'],
+            ['BT-95', 'Document level allowance VAT category code', 'TaxCategory/ID'],
+            ['BT-96', 'Document level allowance VAT rate', 'TaxCategory/Percent'],
+            ['BT-97', 'Document level allowance reason', 'AllowanceChargeReason'],
+            ['BT-98', 'Document level allowance reason code', 'AllowanceChargeReasonCode'],
+        ],
+    },
+    {
+        id: 'BG-21', name: 'Document level charges', path: "AllowanceCharge[ChargeIndicator='true']", terms: [
+            ['BT-99', 'Document level charge amount', 'Amount'],
+            ['BT-100', 'Document level charge base amount', 'BaseAmount'],
+            ['BT-101', 'Document level charge percentage', 'MultiplierFactorNumeric'],
+            ['BT-102', 'Document level charge VAT category code', 'TaxCategory/ID'],
+            ['BT-103', 'Document level charge VAT rate', 'TaxCategory/Percent'],
+            ['BT-104', 'Document level charge reason', 'AllowanceChargeReason'],
+            ['BT-105', 'Document level charge reason code', 'AllowanceChargeReasonCode'],
+        ],
+    },
+    {
+        id: 'BG-22', name: 'Document totals', path: 'LegalMonetaryTotal', terms: [
+            ['BT-106', 'Sum of Invoice line net amount', 'LineExtensionAmount'],
+            ['BT-107', 'Sum of allowances on document level', 'AllowanceTotalAmount'],
+            ['BT-108', 'Sum of charges on document level', 'ChargeTotalAmount'],
+            ['BT-109', 'Invoice total amount without VAT', 'TaxExclusiveAmount'],
+            ['BT-112', 'Invoice total amount with VAT', 'TaxInclusiveAmount'],
+            ['BT-113', 'Paid amount', 'PrepaidAmount'],
+            ['BT-114', 'Rounding amount', 'PayableRoundingAmount'],
+            ['BT-115', 'Amount due for payment', 'PayableAmount'],
+        ],
+    },
+    {
+        id: 'BG-22', name: 'Document totals', terms: [
+            ['BT-111', 'Invoice total VAT amount in accounting currency', "TaxTotal/TaxAmount[@currencyID='/TaxCurrencyCode']"],
+            ['BT-110', 'Invoice total VAT amount', 'TaxTotal/TaxAmount'],
+        ],
+    },
+    {
+        id: 'BG-23', name: 'VAT breakdown', path: 'TaxTotal/TaxSubtotal', terms: [
+            ['BT-116', 'VAT category taxable amount', 'TaxableAmount'],
+            ['BT-117', 'VAT category tax amount', 'TaxAmount'],
+            ['BT-118', 'VAT category code', 'TaxCategory/ID'],
+            ['BT-119', 'VAT category rate', 'TaxCategory/Percent'],
+            ['BT-120', 'VAT exemption reason text', 'TaxCategory/TaxExemptionReason'],
+            ['BT-121', 'VAT exemption reason code', 'TaxCategory/TaxExemptionReasonCode'],
+        ],
+    },
+    {
+        id: 'BG-24', name: 'Additional supporting documents', path: 'AdditionalDocumentReference', terms: [
+            ['BT-122', 'Supporting document reference', 'ID'],
+            ['BT-123', 'Supporting document description', 'DocumentDescription'],
+            ['BT-124', 'External document location', 'Attachment/ExternalReference/URI'],
+            ['BT-125', 'Attached document', 'Attachment/EmbeddedDocumentBinaryObject'],
+        ],
+    },
+    {
+        id: 'BG-25', name: 'Invoice line', path: 'InvoiceLine', terms: [
+            ['BT-126', 'Invoice line identifier', 'ID'],
+            ['BT-127', 'Invoice line note', 'Note'],
+            ['BT-128', 'Invoice line object identifier', 'DocumentReference/ID'],
+            ['BT-129', 'Invoiced quantity', 'InvoicedQuantity'],
+            ['BT-131', 'Invoice line net amount', 'LineExtensionAmount'],
+            ['BT-132', 'Referenced purchase order line reference', 'OrderLineReference/LineID'],
+            ['BT-133', 'Invoice line Buyer accounting reference', 'AccountingCost'],
+        ],
+    },
+    {
+        id: 'BG-26', name: 'Invoice line period', path: 'InvoiceLine/InvoicePeriod', parent: 'BG-25', terms: [
+            ['BT-134', 'Invoice line period start date', 'StartDate'],
+            ['BT-135', 'Invoice line period end date', 'EndDate'],
+        ],
+    },
+    {
+        id: 'BG-27', name: 'Invoice line allowances', path: "InvoiceLine/AllowanceCharge[ChargeIndicator='false']", parent: 'BG-25', terms: [
+            ['BT-136', 'Invoice line allowance amount', 'Amount'],
+            ['BT-137', 'Invoice line allowance base amount', 'BaseAmount'],
+            ['BT-138', 'Invoice line allowance percentage', 'MultiplierFactorNumeric'],
+            ['BT-139', 'Invoice line allowance reason', 'AllowanceChargeReason'],
+            ['BT-140', 'Invoice line allowance reason code', 'AllowanceChargeReasonCode'],
+        ],
+    },
+    {
+        id: 'BG-28', name: 'Invoice line charges', path: "InvoiceLine/AllowanceCharge[ChargeIndicator='true']", parent: 'BG-25', terms: [
+            ['BT-141', 'Invoice line charge amount', 'Amount'],
+            ['BT-142', 'Invoice line charge base amount', 'BaseAmount'],
+            ['BT-143', 'Invoice line charge percentage', 'MultiplierFactorNumeric'],
+            ['BT-144', 'Invoice line charge reason', 'AllowanceChargeReason'],
+            ['BT-145', 'Invoice line charge reason code', 'AllowanceChargeReasonCode'],
+        ],
+    },
+    {
+        id: 'BG-29', name: 'Price details', path: 'InvoiceLine/Price', parent: 'BG-25', terms: [
+            ['BT-146', 'Item net price', 'PriceAmount'],
+            ['BT-147', 'Item price discount', 'AllowanceCharge/Amount'],
+            ['BT-148', 'Item gross price', 'AllowanceCharge/BaseAmount'],
+            ['BT-149', 'Item price base quantity', 'BaseQuantity'],
+        ],
+    },
+    {
+        id: 'BG-30', name: 'Line VAT information', path: 'InvoiceLine/Item/ClassifiedTaxCategory', parent: 'BG-31', terms: [
+            ['BT-151', 'Invoiced item VAT category code', 'ID'],
+            ['BT-152', 'Invoiced item VAT rate', 'Percent'],
+        ],
+    },
+    {
+        id: 'BG-31', name: 'Item information', path: 'InvoiceLine/Item', parent: 'BG-25', terms: [
+            ['BT-153', 'Item name', 'Name'],
+            ['BT-154', 'Item description', 'Description'],
+            ['BT-155', "Item Seller's identifier", 'SellersItemIdentification/ID'],
+            ['BT-156', "Item Buyer's identifier", 'BuyersItemIdentification/ID'],
+            ['BT-157', 'Item standard identifier', 'StandardItemIdentification/ID'],
+            ['BT-158', 'Item classification identifier', 'CommodityClassification/ItemClassificationCode'],
+            ['BT-159', 'Item country of origin', 'OriginCountry/IdentificationCode'],
+        ],
+    },
+    {
+        id: 'BG-32', name: 'Item attributes', path: 'InvoiceLine/Item/AdditionalItemProperty', parent: 'BG-31', terms: [
+            ['BT-160', 'Item attribute name', 'Name'],
+            ['BT-161', 'Item attribute value', 'Value'],
+        ],
+    },
+];
+
+function buildTerms(): BusinessTerm[] {
+    const terms: BusinessTerm[] = DOCUMENT_TERMS.map(([id, name, path]) => ({ id, name, kind: 'BT', path }));
+    const seenGroups = new Set<string>();
+    for (const group of GROUPS) {
+        if (!seenGroups.has(group.id)) {
+            seenGroups.add(group.id);
+            // A group without its own element has an empty path, which never matches
+            terms.push({ id: group.id, name: group.name, kind: 'BG', group: group.parent, path: group.path ?? '' });
+        }
+        for (const [id, name, relativePath] of group.terms) {
+            terms.push({
+                id,
+                name,
+                kind: 'BT',
+                group: group.id,
+                path: group.path ? `${group.path}/${relativePath}` : relativePath,
+            });
+        }
+    }
+    return terms;
+}
+
+const TERMS = buildTerms();
+
+/** Splits on "/" outside predicates */
+function splitSteps(path: string): string[] {
+    const steps: string[] = [];
+    let depth = 0;
+    let current = '';
+    for (const ch of path) {
+        if (ch === '[') {
+            depth++;
+        } else if (ch === ']') {
+            depth--;
+        }
+        if (ch === '/' && depth === 0) {
+            steps.push(current);
+            current = '';
+        } else {
+            current += ch;
+        }
+    }
+    steps.push(current);
+    return steps.filter(Boolean);
+}
+
+function parseStep(step: string): PathStep {
+    const bracket = step.indexOf('[');
+    const name = bracket === -1 ? step : step.slice(0, bracket);
+    const predicates: StepPredicate[] = [];
+    for (const match of step.matchAll(/\[([^\]=!]+?)\s*(!?=)\s*'([^']*)'\]/g)) {
+        predicates.push({ path: match[1].trim(), operator: match[2] as '=' | '!=', value: match[3] });
+    }
+    return { name, predicates };
+}
+
+const PARSED_PATHS = new Map(TERMS.map(term => [term, splitSteps(term.path).map(parseStep)]));
+
+function normaliseName(localName: string): string {
+    return CREDIT_NOTE_NAMES[localName] ?? localName;
+}
+
+function valueAt(element: XmlElement, path: string): string | undefined {
+    if (path.startsWith('@')) {
+        return element.attributes.get(path.slice(1));
+    }
+    let current: XmlElement | undefined = element;
+    for (const name of path.split('/')) {
+        current = current && childElements(current).find(c => normaliseName(c.localName) === name);
+    }
+    return current ? directText(current).trim() : undefined;
+}
+
+function predicateHolds(element: XmlElement, predicate: StepPredicate): boolean {
+    let expected = predicate.value;
+    if (expected.startsWith('/')) {
+        let root = element;
+        while (root.parent) {
+            root = root.parent;
+        }
+        expected = valueAt(root, expected.slice(1)) ?? '';
+    }
+    const actual = valueAt(element, predicate.path) ?? '';
+    return predicate.operator === '=' ? actual === expected : actual !== expected;
+}
+
+/**
+ * Finds the term for a path of local names below the root. With elements
+ * the predicates are checked; without (a path from an SVRL location) the
+ * first entry for the path wins.
+ */
+function matchPath(names: string[], elements?: XmlElement[]): BusinessTerm | undefined {
+    for (const [term, steps] of PARSED_PATHS) {
+        if (steps.length !== names.length) {
+            continue;
+        }
+        const matches = steps.every((step, i) =>
+            step.name === names[i] &&
+            (!elements || step.predicates.every(p => predicateHolds(elements[i], p)))
+        );
+        if (matches) {
+            return term;
+        }
+    }
+    return undefined;
+}
+
+export function getBusinessTerm(id: string): BusinessTerm | undefined {
+    return TERMS.find(term => term.id === id);
+}
+
+export function getBusinessTerms(): readonly BusinessTerm[] {
+    return TERMS;
+}
+
+/** "BT-31 Seller VAT identifier" */
+export function formatBusinessTerm(term: BusinessTerm): string {
+    return `${term.id} ${term.name}`;
+}
+
+/** Ancestors below the document root, outermost first, including the element */
+function pathFromRoot(element: XmlElement): XmlElement[] {
+    const path: XmlElement[] = [];
+    for (let e: XmlElement | null = element; e?.parent; e = e.parent) {
+        path.unshift(e);
+    }
+    return path;
+}
+
+/** The term an element of a UBL Invoice or CreditNote represents, if any */
+export function businessTermForElement(element: XmlElement): BusinessTerm | undefined {
+    const elements = pathFromRoot(element);
+    return matchPath(elements.map(e => normaliseName(e.localName)), elements);
+}
+
+/**
+ * The term an SVRL location (e.g. "/*:Invoice[...][1]/*:AccountingSupplierParty[1]/...")
+ * points at. Walks up to the nearest ancestor with a term, so a location on
+ * an unmapped element still names its business group.
+ */
+export function businessTermForLocation(location: string): BusinessTerm | undefined {
+    const names = splitSteps(location.replace(/Q\{[^}]*\}/g, '').replace(/\[[^\]]*\]/g, ''))
+        .filter(step => !step.startsWith('@'))
+        .map(step => normaliseName(step.replace(/^[^:]*:/, '')));
+    // The first step is the document root
+    for (let length = names.length - 1; length > 0; length--) {
+        const term = matchPath(names.slice(1, length + 1));
+        if (term) {
+            return term;
+        }
+    }
+    return undefined;
+}
+
+export interface BusinessTermOccurrence {
+    term: BusinessTerm;
+    element: XmlElement;
+    /** Trimmed text for terms, '' for groups */
+    value: string;
+    /** Number of enclosing group occurrences, for indenting a BT-level view */
+    depth: number;
+}
+
+/** Every term in a UBL document, in document order, with groups enclosing their terms */
+export function collectBusinessTerms(root: XmlElement): BusinessTermOccurrence[] {
+    const occurrences: BusinessTermOccurrence[] = [];
+    const visit = (element: XmlElement, depth: number) => {
+        const term = businessTermForElement(element);
+        if (term) {
+            occurrences.push({ term, element, value: term.kind === 'BT' ? directText(element).trim() : '', depth });
+        }
+        const childDepth = term?.kind === 'BG' ? depth + 1 : depth;
+        for (const child of childElements(element)) {
+            visit(child, childDepth);
+        }
+    };
+    for (const child of childElements(root)) {
+        visit(child, 0);
+    }
+    return occurrences;
+}
@@ -1,10 +1,15 @@
 import { TraceEntry } from './xsltTracer';
 import { ValidationIssue } from '../validation/types';
+import { businessTermForLocation } from '../semantic/businessTerms';
+import { childElements, parseXmlDocument, XmlElement } from '../xml/xmlDom';
+import { elementHighlight, splitLocationPath } from '../xml/xpathLocator';
 
 export interface TracedIssue extends ValidationIssue {
     xsltSourceFile?: string;
     xsltSourceLine?: number;
     xsltElementName?: string;
+    /** EN16931 term of the failing element (e.g. "BT-31"), or the first one the message names */
+    businessTerm?: string;
 }
 
 /**
@@ -86,7 +91,7 @@ const RULE_TARGET_ELEMENTS: Record<string, string[]> = {
 /**
  * Extracts element names to search for, using multiple strategies:
  * 1. Rule ID lookup (most reliable for root-level Schematron rules)
- * 2. Prefixed element names (cbc:X, cac:X)
+ * 2. Prefixed element names (cbc:X, cac:X, ram:X)
  * 3. XSD error format
  * 4. UBL-CR path format ("should not include the X Y Z")
  * 5. PascalCase compound words as fallback
@@ -105,8 +110,8 @@ function extractErrorElementNames(message: string, ruleId?: string): string[] {
         names.push(xsdMatch[1]);
     }
 
-    // Strategy 3: Prefixed element names (cbc:X, cac:X)
-    const nsRegex = /(?:cbc|cac|ubl|ext):([A-Za-z][A-Za-z0-9_-]*)/g;
+    // Strategy 3: Prefixed element names (cbc:X, cac:X, ram:X)
+    const nsRegex = /(?:cbc|cac|ubl|ext|rsm|ram|udt|qdt):([A-Za-z][A-Za-z0-9_-]*)/g;
     let m: RegExpExecArray | null;
     while ((m = nsRegex.exec(message)) !== null) {
         if (!names.includes(m[1])) {
@@ -155,25 +160,46 @@ function traceMatchesElement(entry: TraceEntry, elementName: string): boolean {
     return traceBase === elementName;
 }
 
-/**
- * Find the 1-indexed line number where an element appears in the output XML.
- */
-function findElementLineInOutput(elementName: string, outputLines: string[]): number | null {
-    const regex = new RegExp(`<(?:[a-zA-Z0-9_-]+:)?${escapeRegex(elementName)}[\\s>\/]`);
-    for (let i = 0; i < outputLines.length; i++) {
-        if (regex.test(outputLines[i])) {
-            return i + 1;
+/** First element with the local name in document order, optionally starting on a given line */
+function findOutputElement(root: XmlElement, localName: string, line?: number): XmlElement | undefined {
+    if (root.localName === localName && (line === undefined || root.start.line === line)) {
+        return root;
+    }
+    for (const child of childElements(root)) {
+        if (line !== undefined && (child.start.line > line || child.end.line < line)) {
+            continue;
+        }
+        const found = findOutputElement(child, localName, line);
+        if (found) {
+            return found;
         }
     }
-    return null;
+    return undefined;
 }
 
-function escapeRegex(s: string): string {
-    return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+/** Moves the issue onto the element, or onto the start of the line when the element isn't known */
+function placeIssue(traced: TracedIssue, line: number, element: XmlElement | undefined): void {
+    if (element) {
+        const { start, end } = elementHighlight(element);
+        traced.line = start.line;
+        traced.column = start.column;
+        traced.endLine = end.line;
+        traced.endColumn = end.column;
+    } else {
+        traced.line = line;
+        traced.column = 0;
+        delete traced.endLine;
+        delete traced.endColumn;
+    }
+}
+
+/** Whether the SVRL location points below the document root, i.e. the issue is already on its element */
+function hasElementLocation(issue: ValidationIssue): boolean {
+    return issue.location !== undefined && issue.endLine !== undefined && splitLocationPath(issue.location).length > 1;
 }
 
 const ROOT_ELEMENTS = new Set(['Invoice', 'CreditNote', 'DebitNote', 'Order', 'OrderResponse',
-    'DespatchAdvice', 'ReceiptAdvice', 'Catalogue', 'ApplicationResponse']);
+    'DespatchAdvice', 'ReceiptAdvice', 'Catalogue', 'ApplicationResponse', 'CrossIndustryInvoice']);
 
 /**
  * Maps validation issues to:
@@ -190,10 +216,19 @@ export function mapIssuesToXsltSource(
     }
 
     const sorted = [...traceEntries].sort((a, b) => a.outputLine - b.outputLine);
-    const outputLines = outputContent ? outputContent.split(/\r?\n/) : [];
+    let outputRoot: XmlElement | undefined;
+    try {
+        outputRoot = outputContent ? parseXmlDocument(outputContent).root : undefined;
+    } catch {
+        // Malformed output: relocate by trace line only
+    }
 
     return issues.map(issue => {
         const traced: TracedIssue = { ...issue };
+        if (hasElementLocation(issue)) {
+            linkNearestTrace(traced, sorted);
+            return traced;
+        }
         const errorElements = extractErrorElementNames(issue.message, issue.ruleId);
 
         // Filter out root-level document type names
@@ -211,7 +246,7 @@ export function mapIssuesToXsltSource(
         for (const elementName of specificElements) {
             const match = sorted.find(e => traceMatchesElement(e, elementName));
             if (match) {
-                traced.line = match.outputLine;
+                placeIssue(traced, match.outputLine, outputRoot && findOutputElement(outputRoot, elementName, match.outputLine));
                 traced.xsltSourceFile = match.sourceFile;
                 traced.xsltSourceLine = match.sourceLine;
                 traced.xsltElementName = match.elementName;
@@ -220,12 +255,12 @@ export function mapIssuesToXsltSource(
         }
 
         // No trace match — search the output XML directly
-        if (outputLines.length > 0) {
+        if (outputRoot) {
             for (const elementName of specificElements) {
-                const outputLine = findElementLineInOutput(elementName, outputLines);
-                if (outputLine) {
-                    traced.line = outputLine;
-                    linkNearestTraceAt(traced, sorted, outputLine);
+                const element = findOutputElement(outputRoot, elementName);
+                if (element) {
+                    placeIssue(traced, element.start.line, element);
+                    linkNearestTraceAt(traced, sorted, element.start.line);
                     return traced;
                 }
             }
@@ -259,3 +294,15 @@ function linkNearestTraceAt(traced: TracedIssue, sorted: TraceEntry[], line: num
         traced.xsltElementName = nearest.elementName;
     }
 }
+
+/**
+ * Sets businessTerm from the issue's location; issues on the document root
+ * (most calculation rules) fall back to the first BT/BG named in the message.
+ */
+export function addBusinessTerms(issues: TracedIssue[]): TracedIssue[] {
+    return issues.map(issue => {
+        const term = issue.location ? businessTermForLocation(issue.location) : undefined;
+        const businessTerm = term?.id ?? issue.message.match(/\bB[TG]-\d+\b/)?.[0];
+        return businessTerm ? { ...issue, businessTerm } : issue;
+    });
+}
@@ -1,7 +1,13 @@
 import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
 import { execAsync, checkToolAvailable } from '../utils/execAsync';
-import { writeTempFile } from '../utils/tempFile';
-import { runSaxonTransform } from '../utils/javaRunner';
+import { createTempDirectory } from '../utils/tempFile';
+import { isOutputTracerAvailable, runSaxonTracedTransform, runSaxonTransform, SaxonTraceRecord } from '../utils/javaRunner';
+import { collectStylesheetDependencies, isLocalReference, resolveReference } from '../analysis/stylesheetDependencies';
+import { attributeNamespace, childElements, parseXmlDocument, XmlElement } from '../xml/xmlDom';
+import { XmlParseError } from '../xml/xmlParser';
+import { resolveXPath } from '../xml/xpathLocator';
 
 export interface TraceEntry {
     outputLine: number;
@@ -9,78 +15,456 @@ export interface TraceEntry {
     sourceLine: number;
     /** The element name or match pattern for context */
     elementName: string;
+    /** Saxon backend only: column of the instruction in sourceFile */
+    sourceColumn?: number;
+    /** Saxon backend only: path of the output node, e.g. /Q{urn:...}Invoice[1]/Q{urn:...}ID[1] */
+    outputPath?: string;
+    /** Path of the input node that was the context item, e.g. /Q{urn:x}Order[1]/Q{urn:x}Line[2] */
+    inputPath?: string;
+    /** Line of that node in the source XML */
+    inputLine?: number;
+}
+
+/**
+ * 'comments' injects xsl:comment markers and runs xsltproc or Saxon;
+ * 'saxon' runs Saxon with a TraceListener (java/OutputTracer), which also
+ * traces xsl:copy-of, xsl:sequence and function output and leaves the
+ * output's whitespace as the stylesheet produces it.
+ */
+export type TracingBackend = 'comments' | 'saxon';
+
+let tracingBackend: TracingBackend = 'comments';
+
+export function setTracingBackend(backend: TracingBackend): void {
+    tracingBackend = backend;
 }
 
 const TRACE_COMMENT_PREFIX = 'XSLT-TRACE|';
 const TRACE_DELIMITER = '|';
 
+const XSL_NAMESPACE = 'http://www.w3.org/1999/XSL/Transform';
+
+/** Declarations whose content is a sequence constructor that can produce result elements */
+const TRACED_DECLARATIONS = new Set(['template', 'function']);
+
 /**
- * Regex matching literal output elements in XSLT — anything that is NOT
- * an xsl: instruction. Captures the full element name including prefix.
- * Matches opening tags like: <cbc:ID>, <cac:Party>, <Invoice>, <ext:Foo>
- * but NOT <xsl:value-of>, <xsl:apply-templates>, etc.
+ * Instructions whose content must not get extra nodes: a comment there would
+ * end up in an attribute value, a comment or message text, or in a variable
+ * that may be typed or compared as a string.
  */
-const LITERAL_ELEMENT_REGEX = /^(\s*)<(?!xsl:|\/|!|\?)([a-zA-Z][a-zA-Z0-9_-]*(?::[a-zA-Z][a-zA-Z0-9_-]*)?)[\s>\/]/;
+const UNTRACED_INSTRUCTIONS = new Set([
+    'attribute', 'comment', 'processing-instruction', 'namespace', 'message',
+    'variable', 'param', 'with-param', 'sort', 'key', 'value-of', 'text',
+]);
+
+interface TracePoint {
+    offset: number;
+    line: number;
+    elementName: string;
+    /** Prefix bound to the XSLT namespace where the marker goes, or undefined if none is */
+    xslPrefix: string | undefined;
+    /**
+     * How the marker records the context node's path: 'node' when the
+     * context is always a node (XSLT 1.0), 'any' when it may be an atomic
+     * value (XSLT 2.0+), 'none' where there may be no context item at all.
+     */
+    context: 'node' | 'any' | 'none';
+    /** XPath test the marker is wrapped in, for xsl:copy (see copyGuard) */
+    guard?: string;
+}
+
+/** Options for instrumenting one module of a stylesheet */
+interface InstrumentOptions {
+    /** Original module path -> instrumented copy, for redirecting xsl:include/xsl:import */
+    instrumentedModules?: Map<string, string>;
+    /** Named templates that may run without a context item (see templatesCalledWithoutContext) */
+    contextFreeTemplates?: Set<string>;
+}
+
+/** A prefix that maps to the XSLT namespace at the element, not shadowed by an inner declaration */
+function xslPrefixInScope(element: XmlElement): string | undefined {
+    const seen = new Set<string>();
+    for (let current: XmlElement | null = element; current; current = current.parent) {
+        for (const [prefix, uri] of current.namespaceDeclarations) {
+            if (seen.has(prefix)) {
+                continue;
+            }
+            seen.add(prefix);
+            if (uri === XSL_NAMESPACE) {
+                return prefix;
+            }
+        }
+    }
+    return undefined;
+}
+
+/** Result types a comment node can be added to, e.g. as="node()*" or as="item()*" */
+function acceptsComments(declaration: XmlElement): boolean {
+    const as = declaration.attributes.get('as');
+    return as === undefined || /\b(?:node|item|comment)\(\)/.test(as);
+}
+
+/** Output element name of a literal result element, xsl:element or xsl:copy */
+function producedElementName(element: XmlElement): string | undefined {
+    if (element.namespaceUri !== XSL_NAMESPACE) {
+        return element.name;
+    }
+    if (element.localName === 'element') {
+        return element.attributes.get('name') ?? 'xsl:element';
+    }
+    return element.localName === 'copy' ? 'xsl:copy' : undefined;
+}
 
 /**
- * Instruments an XSLT stylesheet by injecting <xsl:comment> trace markers
- * before every literal output element. This gives element-level granularity
- * so validation errors can be traced back to the exact XSLT line that
- * produces the problematic element.
+ * Test for a marker before xsl:copy: only element and document nodes are
+ * copied as elements. Before an attribute or namespace copy the comment
+ * would be added to the parent first, after which Saxon rejects the
+ * attribute (XTDE0410) and xsltproc drops it, e.g. in an identity template
+ * matching @*|node(). Undefined when the marker can't be guarded, i.e.
+ * without a context item.
  */
-export function instrumentXslt(xsltPath: string): string {
-    const content = fs.readFileSync(xsltPath, 'utf8');
-    const lines = content.split(/\r?\n/);
-    const result: string[] = [];
-
-    // Track whether we're inside an xsl:template (only instrument inside templates)
-    let inTemplate = false;
-    let templateDepth = 0;
+function copyGuard(copy: XmlElement, context: TracePoint['context']): string | undefined {
+    const select = copy.attributes.get('select');
+    if (select !== undefined) {
+        return `(${select}) instance of element() or (${select}) instance of document-node()`;
+    }
+    switch (context) {
+        case 'node':
+            return 'self::* or not(..)';
+        case 'any':
+            return '. instance of element() or . instance of document-node()';
+        case 'none':
+            return undefined;
+    }
+}
 
-    for (let i = 0; i < lines.length; i++) {
-        const line = lines[i];
+/**
+ * Where markers may go: 'on' in a sequence constructor, 'typed' directly in
+ * a template or function whose declared type rules out comments (only the
+ * content of the elements it creates is traced), 'off' outside templates
+ * and inside instructions from UNTRACED_INSTRUCTIONS.
+ */
+type TraceMode = 'on' | 'typed' | 'off';
 
-        // Track template boundaries
-        if (/<xsl:template\b/.test(line)) {
-            inTemplate = true;
-            templateDepth++;
+/** Elements inside templates and functions that produce a result element */
+function collectTracePoints(
+    element: XmlElement,
+    mode: TraceMode,
+    context: TracePoint['context'],
+    contextFreeTemplates: Set<string>,
+    points: TracePoint[]
+): void {
+    for (const child of childElements(element)) {
+        const isXsl = child.namespaceUri === XSL_NAMESPACE;
+        const elementName = mode === 'off' ? undefined : producedElementName(child);
+        const isCopy = isXsl && child.localName === 'copy';
+        const guard = isCopy ? copyGuard(child, context) : undefined;
+        if (elementName && mode === 'on' && (!isCopy || guard !== undefined)) {
+            points.push({
+                offset: child.startOffset,
+                line: child.start.line,
+                elementName,
+                xslPrefix: xslPrefixInScope(child),
+                context,
+                guard,
+            });
         }
-        if (/<\/xsl:template\s*>/.test(line)) {
-            templateDepth--;
-            if (templateDepth <= 0) {
-                inTemplate = false;
-                templateDepth = 0;
+        let childMode = mode;
+        let childContext = context;
+        if (isXsl && TRACED_DECLARATIONS.has(child.localName)) {
+            childMode = acceptsComments(child) ? 'on' : 'typed';
+            const name = child.attributes.get('name');
+            if (child.localName === 'function' ||
+                (name !== undefined && !child.attributes.has('match') && contextFreeTemplates.has(name))) {
+                childContext = 'none';
             }
+        } else if (isXsl && UNTRACED_INSTRUCTIONS.has(child.localName)) {
+            childMode = 'off';
+        } else if (elementName) {
+            childMode = 'on';
         }
+        collectTracePoints(child, childMode, childContext, contextFreeTemplates, points);
+    }
+}
+
+function walk(element: XmlElement, visit: (element: XmlElement) => void): void {
+    visit(element);
+    for (const child of childElements(element)) {
+        walk(child, visit);
+    }
+}
+
+function isXslElement(element: XmlElement, localName: string): boolean {
+    return element.namespaceUri === XSL_NAMESPACE && element.localName === localName;
+}
 
-        if (inTemplate) {
-            const m = line.match(LITERAL_ELEMENT_REGEX);
-            if (m) {
-                const indent = m[1];
-                const elementName = m[2];
-                // Inject a trace comment before this literal element
-                const traceComment = `${indent}<xsl:comment>${TRACE_COMMENT_PREFIX}${xsltPath}${TRACE_DELIMITER}${i + 1}${TRACE_DELIMITER}${elementName}</xsl:comment>`;
-                result.push(traceComment);
+/**
+ * Names of templates that can be called from an xsl:function, directly or
+ * through other named templates. The context item is absent there, so
+ * their markers can't ask for the context node (it would be a dynamic error).
+ */
+function templatesCalledWithoutContext(roots: XmlElement[]): Set<string> {
+    const calls = new Map<string, string[]>();
+    const fromFunctions: string[] = [];
+    const calledNames = (declaration: XmlElement): string[] => {
+        const names: string[] = [];
+        walk(declaration, e => {
+            const name = isXslElement(e, 'call-template') ? e.attributes.get('name') : undefined;
+            if (name) {
+                names.push(name);
+            }
+        });
+        return names;
+    };
+    for (const root of roots) {
+        for (const declaration of childElements(root)) {
+            const name = declaration.attributes.get('name');
+            if (isXslElement(declaration, 'function')) {
+                fromFunctions.push(...calledNames(declaration));
+            } else if (isXslElement(declaration, 'template') && name) {
+                calls.set(name, [...(calls.get(name) ?? []), ...calledNames(declaration)]);
             }
         }
+    }
+    const result = new Set<string>();
+    const queue = [...fromFunctions];
+    while (queue.length > 0) {
+        const name = queue.pop()!;
+        if (!result.has(name)) {
+            result.add(name);
+            queue.push(...(calls.get(name) ?? []));
+        }
+    }
+    return result;
+}
+
+/** 'node' for XSLT 1.0 stylesheets, 'any' for 2.0 and later */
+function stylesheetContext(root: XmlElement): TracePoint['context'] {
+    const version = root.namespaceUri === XSL_NAMESPACE
+        ? root.attributes.get('version')
+        : [...root.attributes].find(([name]) => attributeNamespace(root, name) === XSL_NAMESPACE && name.endsWith(':version'))?.[1];
+    return parseFloat(version ?? '1.0') >= 2 ? 'any' : 'node';
+}
+
+/**
+ * Module path as written in markers: percent-encoded, so a "|" can't be
+ * taken for a delimiter and "--" can't end up in the comment.
+ */
+function encodeModulePath(modulePath: string): string {
+    return encodeURI(modulePath).replace(/-/g, '%2D');
+}
+
+function decodeModulePath(encoded: string): string {
+    try {
+        return decodeURIComponent(encoded);
+    } catch {
+        return encoded;
+    }
+}
+
+/**
+ * The marker comment: XSLT-TRACE|module|line|element|context path, with the
+ * path of the context element written at run time in the same
+ * Q{uri}local[n] form the Saxon backend uses. Each step is one xsl:value-of,
+ * since literal braces in text would be read as text value templates under
+ * expand-text="yes"; the element name, which may be an attribute value
+ * template such as {$name}, is written the same way.
+ */
+function traceMarker(xsltPath: string, point: TracePoint): string {
+    const xsl = (localName: string) => point.xslPrefix ? `${point.xslPrefix}:${localName}` : localName;
+    const elementName = point.elementName.replace(/\|/g, '/').replace(/--/g, '- -');
+    const text = `${TRACE_COMMENT_PREFIX}${encodeModulePath(xsltPath)}${TRACE_DELIMITER}${point.line}${TRACE_DELIMITER}`
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;') +
+        `<${xsl('value-of')} select="${escapeAttribute(xpathStringLiteral(elementName))}"/>${TRACE_DELIMITER}`;
+    const ancestors = point.context === 'any'
+        ? 'if (. instance of node()) then ancestor-or-self::* else ()'
+        : 'ancestor-or-self::*';
+    const contextPath = point.context === 'none' ? '' :
+        `<${xsl('for-each')} select="${ancestors}">` +
+        `<${xsl('value-of')} select="concat('/Q{', namespace-uri(), '}', local-name(), '[', ` +
+        `count(preceding-sibling::*[local-name() = local-name(current()) and namespace-uri() = namespace-uri(current())]) + 1, ']')"/>` +
+        `</${xsl('for-each')}>`;
+    const marker = point.xslPrefix === undefined
+        ? `<comment xmlns="${XSL_NAMESPACE}">${text}${contextPath}</comment>`
+        : `<${xsl('comment')}>${text}${contextPath}</${xsl('comment')}>`;
+    if (point.guard === undefined) {
+        return marker;
+    }
+    const test = escapeAttribute(point.guard);
+    return point.xslPrefix === undefined
+        ? `<if xmlns="${XSL_NAMESPACE}" test="${test}">${marker}</if>`
+        : `<${xsl('if')} test="${test}">${marker}</${xsl('if')}>`;
+}
+
+/** Text to insert at an offset, replacing `length` characters there */
+interface TextEdit {
+    offset: number;
+    length: number;
+    text: string;
+}
+
+function applyEdits(content: string, edits: TextEdit[]): string {
+    let result = '';
+    let last = 0;
+    for (const edit of [...edits].sort((a, b) => a.offset - b.offset)) {
+        result += content.slice(last, edit.offset) + edit.text;
+        last = edit.offset + edit.length;
+    }
+    return result + content.slice(last);
+}
+
+/** XPath 1.0 has no escape inside string literals, so mixed quotes go through concat() */
+function xpathStringLiteral(value: string): string {
+    if (!value.includes("'")) {
+        return `'${value}'`;
+    }
+    if (!value.includes('"')) {
+        return `"${value}"`;
+    }
+    return `concat('${value.split("'").join(`', "'", '`)}')`;
+}
+
+function escapeAttribute(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
+
+/**
+ * Points xsl:include/xsl:import at the instrumented copies of the modules
+ * they reference. Modules that have no copy keep their href, which resolves
+ * against the original location through the xml:base set on the root.
+ */
+function moduleReferenceEdits(
+    content: string,
+    root: XmlElement,
+    xsltPath: string,
+    instrumentedModules: Map<string, string>
+): TextEdit[] {
+    const edits: TextEdit[] = [];
+    for (const child of childElements(root)) {
+        if (child.namespaceUri !== XSL_NAMESPACE || (child.localName !== 'include' && child.localName !== 'import')) {
+            continue;
+        }
+        const href = child.attributes.get('href');
+        const copy = href && isLocalReference(href) ? instrumentedModules.get(resolveReference(href, xsltPath)) : undefined;
+        const startTag = content.slice(child.startOffset, child.startTagEndOffset);
+        const value = /\shref\s*=\s*(["'])([^"']*)\1/.exec(startTag);
+        if (copy && value) {
+            const valueOffset = child.startOffset + value.index + value[0].length - value[2].length - 1;
+            edits.push({ offset: valueOffset, length: value[2].length, text: escapeAttribute(pathToFileURL(copy).href) });
+        }
+    }
+    return edits;
+}
+
+/**
+ * Sets xml:base on the root to the original module, so document() calls and
+ * references to modules without a copy resolve as if the stylesheet had not
+ * been moved.
+ */
+function baseUriEdit(content: string, root: XmlElement, xsltPath: string): TextEdit {
+    const base = root.attributes.get('xml:base');
+    const uri = base ? new URL(base, pathToFileURL(xsltPath)).href : pathToFileURL(xsltPath).href;
+    const attribute = `xml:base="${escapeAttribute(uri)}"`;
+    if (base === undefined) {
+        return { offset: root.startOffset + 1 + root.name.length, length: 0, text: ` ${attribute}` };
+    }
+    const startTag = content.slice(root.startOffset, root.startTagEndOffset);
+    const existing = /\sxml:base\s*=\s*(["'])[^"']*\1/.exec(startTag)!;
+    return { offset: root.startOffset + existing.index + 1, length: existing[0].length - 1, text: attribute };
+}
+
+/**
+ * Instruments an XSLT stylesheet module by injecting <xsl:comment> trace
+ * markers before every literal result element, xsl:element and xsl:copy in
+ * its templates and functions (for xsl:copy, only when it copies an element
+ * or document node). The stylesheet is parsed rather than scanned
+ * by line, so markers land between nodes of a sequence constructor and never
+ * inside a start tag. Markers are skipped where a comment node would change
+ * the result, e.g. inside xsl:attribute or a function declared as="element()".
+ * Each marker also writes the path of the context element, for input lineage.
+ *
+ * The result is meant to be written elsewhere: xml:base keeps relative
+ * references resolving against the original file, and xsl:include/xsl:import
+ * of modules in instrumentedModules (original path -> copy) are redirected to
+ * their copies. Throws XmlParseError when the module is not well-formed.
+ */
+export function instrumentXslt(xsltPath: string, options: InstrumentOptions = {}): string {
+    const content = fs.readFileSync(xsltPath, 'utf8');
+    const { root } = parseXmlDocument(content);
+    const instrumentedModules = options.instrumentedModules ?? new Map<string, string>();
+    const contextFreeTemplates = options.contextFreeTemplates ?? templatesCalledWithoutContext([root]);
+    const points: TracePoint[] = [];
+    collectTracePoints(root, 'off', stylesheetContext(root), contextFreeTemplates, points);
+
+    const edits: TextEdit[] = points.map(point => ({ offset: point.offset, length: 0, text: traceMarker(xsltPath, point) }));
+    // A simplified stylesheet's root is a literal result element, where xml:base would be output
+    if (root.namespaceUri === XSL_NAMESPACE) {
+        edits.push(...moduleReferenceEdits(content, root, xsltPath, instrumentedModules), baseUriEdit(content, root, xsltPath));
+    }
+    return applyEdits(content, edits);
+}
+
+/**
+ * Instruments a stylesheet and every module it reaches through
+ * xsl:include/xsl:import into a temp directory, so templates in included
+ * modules are traced with their own file and line. Modules that are missing
+ * or not well-formed are left to the XSLT processor to report; only the main
+ * stylesheet must parse.
+ */
+export function instrumentStylesheet(xsltPath: string): { filePath: string; cleanup: () => void } {
+    const mainPath = path.resolve(xsltPath);
+    const modules = collectStylesheetDependencies(mainPath).stylesheets
+        .filter(file => file === mainPath || fs.existsSync(file));
+    const dir = createTempDirectory();
+    const copies = new Map(modules.map((file, i) => [file, path.join(dir.dirPath, `${i}-${path.basename(file)}`)]));
 
-        result.push(line);
+    const roots: XmlElement[] = [];
+    for (const file of modules) {
+        try {
+            roots.push(parseXmlDocument(fs.readFileSync(file, 'utf8')).root);
+        } catch {
+            // Reported below for the main stylesheet; other modules are copied as they are
+        }
     }
+    const contextFreeTemplates = templatesCalledWithoutContext(roots);
 
-    return result.join('\n');
+    try {
+        for (const file of modules) {
+            let instrumented: string;
+            try {
+                instrumented = instrumentXslt(file, { instrumentedModules: copies, contextFreeTemplates });
+            } catch (error) {
+                if (file === mainPath || !(error instanceof XmlParseError)) {
+                    throw error;
+                }
+                instrumented = fs.readFileSync(file, 'utf8');
+            }
+            fs.writeFileSync(copies.get(file)!, instrumented, 'utf8');
+        }
+    } catch (error) {
+        dir.cleanup();
+        throw error;
+    }
+    return { filePath: copies.get(mainPath)!, cleanup: dir.cleanup };
 }
 
 /**
- * Runs a transform with the instrumented XSLT, parses trace comments from
- * the output, and returns both the clean output and the trace entries.
+ * Runs a traced transform and returns the output with the trace entries.
+ * Uses the Saxon backend when selected and built, otherwise runs the
+ * comment-instrumented XSLT and strips the trace comments from its output.
  */
 export async function runInstrumentedTransform(
     sourceXml: string,
     xsltPath: string,
     extensionPath?: string
 ): Promise<{ cleanOutput: string; traceEntries: TraceEntry[] }> {
-    const instrumented = instrumentXslt(xsltPath);
-    const tmp = writeTempFile(instrumented, '.xsl');
+    if (tracingBackend === 'saxon' && extensionPath && isOutputTracerAvailable(extensionPath)) {
+        const { output, trace } = await runSaxonTracedTransform(extensionPath, sourceXml, xsltPath);
+        return { cleanOutput: output, traceEntries: addInputLines(toTraceEntries(output, trace), sourceXml) };
+    }
+
+    const tmp = instrumentStylesheet(xsltPath);
 
     try {
         let rawOutput: string;
@@ -108,12 +492,71 @@ export async function runInstrumentedTransform(
             );
         }
 
-        return parseTracedOutput(rawOutput);
+        const { cleanOutput, traceEntries } = parseTracedOutput(rawOutput);
+        return { cleanOutput, traceEntries: addInputLines(traceEntries, sourceXml) };
     } finally {
         tmp.cleanup();
     }
 }
 
+/**
+ * Sets inputLine from inputPath by resolving it in the source XML. Paths to
+ * attributes and text nodes resolve to their element's line.
+ */
+function addInputLines(entries: TraceEntry[], sourceXml: string): TraceEntry[] {
+    if (!entries.some(e => e.inputPath)) {
+        return entries;
+    }
+    let root: XmlElement;
+    try {
+        root = parseXmlDocument(fs.readFileSync(sourceXml, 'utf8')).root;
+    } catch {
+        return entries;
+    }
+    for (const entry of entries) {
+        const location = entry.inputPath
+            ? resolveXPath(root, entry.inputPath.replace(/\/text\(\)\[\d+\]$/, ''))
+            : undefined;
+        if (location?.exact) {
+            entry.inputLine = location.element.start.line;
+        }
+    }
+    return entries;
+}
+
+/**
+ * Places Saxon trace records on output lines by resolving their paths in the
+ * output; text nodes go on the line their parent's content starts. Records
+ * without a stylesheet position (e.g. built-in template rules) are dropped.
+ */
+function toTraceEntries(output: string, trace: SaxonTraceRecord[]): TraceEntry[] {
+    let root: XmlElement;
+    try {
+        root = parseXmlDocument(output).root;
+    } catch {
+        // Text or HTML output: there are no element positions to map to
+        return [];
+    }
+    const entries: TraceEntry[] = [];
+    for (const record of trace) {
+        const isText = record.name === '#text';
+        const location = resolveXPath(root, isText ? record.path.replace(/\/text\(\)\[\d+\]$/, '') : record.path);
+        if (!location?.exact || record.module === null || record.line === null) {
+            continue;
+        }
+        entries.push({
+            outputLine: isText ? location.element.startTagEnd.line : location.element.start.line,
+            sourceFile: record.module,
+            sourceLine: record.line,
+            sourceColumn: record.column ?? undefined,
+            elementName: record.name,
+            outputPath: record.path,
+            inputPath: record.context ?? undefined,
+        });
+    }
+    return entries;
+}
+
 /**
  * Parses trace comments from the transform output, builds trace entries,
  * and returns the clean output with trace comments stripped.
@@ -127,14 +570,15 @@ function parseTracedOutput(raw: string): { cleanOutput: string; traceEntries: Tr
     for (const line of lines) {
         // Check for trace comments in this line
         let traceMatch: RegExpExecArray | null;
-        const lineTraceRegex = /<!--XSLT-TRACE\|([^|]*)\|(\d+)\|(.*?)-->/g;
+        const lineTraceRegex = /<!--XSLT-TRACE\|([^|]*)\|(\d+)\|([^|]*?)(?:\|(.*?))?-->/g;
 
         while ((traceMatch = lineTraceRegex.exec(line)) !== null) {
             traceEntries.push({
                 outputLine: cleanLineNum + 1,
-                sourceFile: traceMatch[1],
+                sourceFile: decodeModulePath(traceMatch[1]),
                 sourceLine: parseInt(traceMatch[2], 10),
                 elementName: traceMatch[3],
+                inputPath: traceMatch[4] || undefined,
             });
         }
 
@@ -0,0 +1,28 @@
+/**
+ * Maps items through an async function with at most `limit` calls in flight.
+ * Results keep the input order. When `isCancelled` returns true, items that
+ * have not started yet are dropped from the result.
+ */
+export async function mapWithConcurrency<T, R>(
+    items: T[],
+    limit: number,
+    fn: (item: T, index: number) => Promise<R>,
+    isCancelled?: () => boolean
+): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    const started: boolean[] = new Array(items.length).fill(false);
+    let next = 0;
+
+    const worker = async () => {
+        while (next < items.length && !isCancelled?.()) {
+            const index = next++;
+            started[index] = true;
+            results[index] = await fn(items[index], index);
+        }
+    };
+
+    const workers = Math.min(Math.max(1, limit), items.length);
+    await Promise.all(Array.from({ length: workers }, worker));
+
+    return results.filter((_, i) => started[i]);
+}
@@ -9,10 +9,12 @@ const MAX_BUFFER = 10 * 1024 * 1024; // 10MB
 export function execAsync(
     command: string,
     args: string[],
-    options?: { maxBuffer?: number }
+    options?: { maxBuffer?: number; signal?: AbortSignal }
 ): Promise<{ stdout: string; stderr: string }> {
     return execFilePromise(command, args, {
         maxBuffer: options?.maxBuffer ?? MAX_BUFFER,
+        // Aborting kills the child process and rejects with an AbortError
+        signal: options?.signal,
     });
 }
 
@@ -0,0 +1,216 @@
+import { ChildProcess, spawn } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/** Raised when the daemon can't serve a request; callers fall back to spawning java */
+export class DaemonUnavailableError extends Error {}
+
+interface PendingRequest {
+    resolve: (result: any) => void;
+    reject: (error: Error) => void;
+}
+
+const DAEMON_CLASS = 'ValidatorDaemon';
+const DAEMON_THREADS = 4;
+
+// Stop the JVM after this long without requests; the next call restarts it
+const IDLE_TIMEOUT_MS = 10 * 60 * 1000;
+
+// After this many crashes the session stays on spawn-per-call
+const MAX_RESTARTS = 3;
+
+/**
+ * Client for java/ValidatorDaemon: one long-lived JVM that keeps compiled
+ * stylesheets and parsed schemas cached, spoken to with line-delimited
+ * JSON-RPC over stdin/stdout.
+ */
+class JavaDaemon {
+    private process: ChildProcess | null = null;
+    private pending = new Map<number, PendingRequest>();
+    private nextId = 1;
+    private buffer = '';
+    private stderrTail = '';
+    private crashes = 0;
+    private idleTimer: NodeJS.Timeout | null = null;
+
+    constructor(private readonly extensionPath: string) {}
+
+    get usable(): boolean {
+        return this.crashes < MAX_RESTARTS && fs.existsSync(this.classFile());
+    }
+
+    async request(method: string, params: Record<string, unknown>, signal?: AbortSignal): Promise<any> {
+        const child = this.ensureStarted();
+        const id = this.nextId++;
+        this.resetIdleTimer();
+
+        return new Promise((resolve, reject) => {
+            this.pending.set(id, { resolve, reject });
+            // The daemon finishes the job anyway (it's cheap with a warm cache); only the answer is dropped
+            signal?.addEventListener('abort', () => {
+                if (this.pending.delete(id)) {
+                    reject(Object.assign(new Error('The operation was aborted'), { name: 'AbortError' }));
+                }
+            }, { once: true });
+            child.stdin!.write(JSON.stringify({ id, method, params }) + '\n', (error) => {
+                if (error && this.pending.delete(id)) {
+                    reject(new DaemonUnavailableError(`Java daemon write failed: ${error.message}`));
+                }
+            });
+        });
+    }
+
+    stop(): void {
+        if (this.idleTimer) {
+            clearTimeout(this.idleTimer);
+            this.idleTimer = null;
+        }
+        const child = this.process;
+        if (child) {
+            this.process = null;
+            // Closing stdin lets the daemon finish in-flight work and exit
+            child.stdin?.end();
+            this.failPending(new DaemonUnavailableError('Java daemon stopped'));
+        }
+    }
+
+    private classFile(): string {
+        return path.join(this.extensionPath, 'lib', 'classes', `${DAEMON_CLASS}.class`);
+    }
+
+    private ensureStarted(): ChildProcess {
+        if (this.process) {
+            return this.process;
+        }
+
+        const classpath = [
+            path.join(this.extensionPath, 'lib', 'saxon-he-10.9.jar'),
+            path.join(this.extensionPath, 'lib', 'classes'),
+        ].join(path.delimiter);
+
+        const child = spawn('java', ['-cp', classpath, DAEMON_CLASS, String(DAEMON_THREADS)], {
+            stdio: ['pipe', 'pipe', 'pipe'],
+        });
+        this.process = child;
+        this.buffer = '';
+        this.stderrTail = '';
+
+        // Writes to a daemon that just died fail here; the exit handler rejects pending requests
+        child.stdin!.on('error', () => undefined);
+        child.stdout!.setEncoding('utf8');
+        child.stdout!.on('data', (chunk: string) => this.onData(chunk));
+        child.stderr!.setEncoding('utf8');
+        child.stderr!.on('data', (chunk: string) => {
+            // Saxon writes xsl:message and warnings here; keep the tail for crash reports
+            this.stderrTail = (this.stderrTail + chunk).slice(-2000);
+        });
+        child.on('error', (error) => this.onExit(child, `failed to start: ${error.message}`));
+        child.on('exit', (code, signal) => this.onExit(child, `exited with ${signal ?? `code ${code}`}`));
+
+        return child;
+    }
+
+    private onData(chunk: string): void {
+        this.buffer += chunk;
+        let newline: number;
+        while ((newline = this.buffer.indexOf('\n')) !== -1) {
+            const line = this.buffer.slice(0, newline).trim();
+            this.buffer = this.buffer.slice(newline + 1);
+            if (!line) {
+                continue;
+            }
+
+            let response: any;
+            try {
+                response = JSON.parse(line);
+            } catch {
+                continue;
+            }
+            const request = this.pending.get(response.id);
+            if (!request) {
+                continue;
+            }
+            this.pending.delete(response.id);
+            if (response.error) {
+                // Partial transform output rides along as stdout, like a failed execAsync call
+                const error = new Error(response.error.message);
+                request.reject(typeof response.error.output === 'string'
+                    ? Object.assign(error, { stdout: response.error.output })
+                    : error);
+            } else {
+                request.resolve(response.result);
+            }
+        }
+        if (this.pending.size === 0) {
+            this.resetIdleTimer();
+        }
+    }
+
+    private onExit(child: ChildProcess, reason: string): void {
+        if (this.process !== child) {
+            return;
+        }
+        this.process = null;
+        this.crashes++;
+        const detail = this.stderrTail.trim() ? `: ${this.stderrTail.trim()}` : '';
+        this.failPending(new DaemonUnavailableError(`Java daemon ${reason}${detail}`));
+    }
+
+    private failPending(error: Error): void {
+        for (const request of this.pending.values()) {
+            request.reject(error);
+        }
+        this.pending.clear();
+    }
+
+    private resetIdleTimer(): void {
+        if (this.idleTimer) {
+            clearTimeout(this.idleTimer);
+        }
+        this.idleTimer = setTimeout(() => this.stop(), IDLE_TIMEOUT_MS);
+        // Don't keep the CLI alive just for the idle timer
+        this.idleTimer.unref();
+    }
+}
+
+let daemonEnabled = true;
+const daemons = new Map<string, JavaDaemon>();
+
+export function setJavaDaemonEnabled(enabled: boolean): void {
+    daemonEnabled = enabled;
+    if (!enabled) {
+        stopJavaDaemons();
+    }
+}
+
+/**
+ * Sends a request to the daemon for this extension install. Rejects with
+ * DaemonUnavailableError when the daemon is disabled, not built, or dies
+ * mid-request; any other rejection is an error reported by the daemon or
+ * an AbortError when signal fires.
+ */
+export async function requestJavaDaemon(
+    extensionPath: string,
+    method: string,
+    params: Record<string, unknown>,
+    signal?: AbortSignal
+): Promise<any> {
+    if (!daemonEnabled) {
+        throw new DaemonUnavailableError('Java daemon is disabled');
+    }
+    let daemon = daemons.get(extensionPath);
+    if (!daemon) {
+        daemon = new JavaDaemon(extensionPath);
+        daemons.set(extensionPath, daemon);
+    }
+    if (!daemon.usable) {
+        throw new DaemonUnavailableError('Java daemon is not available');
+    }
+    return daemon.request(method, params, signal);
+}
+
+export function stopJavaDaemons(): void {
+    for (const daemon of daemons.values()) {
+        daemon.stop();
+    }
+}
@@ -1,5 +1,8 @@
+import * as fs from 'fs';
 import * as path from 'path';
 import { execAsync, checkToolAvailable, getInstallInstructions } from './execAsync';
+import { DaemonUnavailableError, requestJavaDaemon } from './javaDaemon';
+import { writeTempFile } from './tempFile';
 
 let javaAvailable: boolean | null = null;
 
@@ -28,18 +31,32 @@ export async function ensureJava(): Promise<void> {
 export async function runSaxonTransform(
     extensionPath: string,
     sourceFile: string,
-    xsltFile: string
+    xsltFile: string,
+    signal?: AbortSignal
 ): Promise<string> {
     await ensureJava();
-    const saxonJar = getBundledSaxonJarPath(extensionPath);
 
+    try {
+        const result = await requestJavaDaemon(extensionPath, 'transform', { source: sourceFile, xslt: xsltFile }, signal);
+        return result.output;
+    } catch (error: any) {
+        if (!(error instanceof DaemonUnavailableError)) {
+            if (error.stdout) {
+                return error.stdout;
+            }
+            throw new Error(`Saxon transform failed: ${error.message}`);
+        }
+        // Daemon not built or not running: spawn a JVM for this call
+    }
+
+    const saxonJar = getBundledSaxonJarPath(extensionPath);
     try {
         const { stdout } = await execAsync('java', [
             '-cp', saxonJar,
             'net.sf.saxon.Transform',
             `-s:${sourceFile}`,
             `-xsl:${xsltFile}`,
-        ]);
+        ], { signal });
         return stdout;
     } catch (error: any) {
         if (error.stdout) {
@@ -49,12 +66,85 @@ export async function runSaxonTransform(
     }
 }
 
+/** One output node as recorded by java/OutputTracer */
+export interface SaxonTraceRecord {
+    /** Output node path, e.g. /Q{urn:...}Invoice[1]/Q{urn:...}ID[1] or .../text()[1] */
+    path: string;
+    /** Element name as written, or "#text" */
+    name: string;
+    module: string | null;
+    line: number | null;
+    column: number | null;
+    /** Path of the context node the instruction ran on, null for atomic context items */
+    context: string | null;
+}
+
+/** Whether java/OutputTracer has been compiled (npm run compile:java) */
+export function isOutputTracerAvailable(extensionPath: string): boolean {
+    return fs.existsSync(path.join(extensionPath, 'lib', 'classes', 'OutputTracer.class'));
+}
+
+/**
+ * Runs a transform under Saxon's TraceListener (java/OutputTracer), returning
+ * the output together with the stylesheet instruction and context node behind
+ * every output element and text node.
+ */
+export async function runSaxonTracedTransform(
+    extensionPath: string,
+    sourceFile: string,
+    xsltFile: string,
+    signal?: AbortSignal
+): Promise<{ output: string; trace: SaxonTraceRecord[] }> {
+    await ensureJava();
+
+    try {
+        return await requestJavaDaemon(extensionPath, 'traceTransform', { source: sourceFile, xslt: xsltFile }, signal);
+    } catch (error: any) {
+        if (!(error instanceof DaemonUnavailableError)) {
+            throw new Error(`Saxon traced transform failed: ${error.message}`);
+        }
+    }
+
+    const classpath = [getBundledSaxonJarPath(extensionPath), path.join(extensionPath, 'lib', 'classes')].join(path.delimiter);
+    const outputFile = writeTempFile('', '.xml');
+    try {
+        const { stdout } = await execAsync('java', [
+            '-cp', classpath,
+            'OutputTracer',
+            sourceFile,
+            xsltFile,
+            outputFile.filePath,
+        ], { signal });
+        const trace = stdout.split(/\r?\n/).filter(line => line.trim()).map(line => JSON.parse(line) as SaxonTraceRecord);
+        return { output: fs.readFileSync(outputFile.filePath, 'utf8'), trace };
+    } catch (error: any) {
+        throw new Error(`Saxon traced transform failed: ${error.message}`);
+    } finally {
+        outputFile.cleanup();
+    }
+}
+
 export async function runXsdValidator(
     extensionPath: string,
     schemaFile: string,
-    xmlFile: string
+    xmlFile: string,
+    signal?: AbortSignal
 ): Promise<{ stdout: string; stderr: string }> {
     await ensureJava();
+
+    try {
+        const result = await requestJavaDaemon(extensionPath, 'validateXsd', { schema: schemaFile, xml: xmlFile }, signal);
+        if (!result.valid) {
+            // Same shape as a failed execAsync call, so callers parse stderr either way
+            throw Object.assign(new Error('XSD validation failed'), { stdout: '', stderr: result.errors });
+        }
+        return { stdout: '', stderr: result.errors };
+    } catch (error: any) {
+        if (!(error instanceof DaemonUnavailableError)) {
+            throw error;
+        }
+    }
+
     const classesDir = path.join(extensionPath, 'lib', 'classes');
 
     return execAsync('java', [
@@ -62,5 +152,5 @@ export async function runXsdValidator(
         'XsdValidator',
         schemaFile,
         xmlFile,
-    ]);
+    ], { signal });
 }
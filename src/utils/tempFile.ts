@@ -26,3 +26,22 @@ export function writeTempFile(content: string, extension: string = '.xml'): Temp
         },
     };
 }
+
+export interface TempDirectoryHandle {
+    dirPath: string;
+    cleanup: () => void;
+}
+
+export function createTempDirectory(): TempDirectoryHandle {
+    const dirPath = fs.mkdtempSync(path.join(os.tmpdir(), 'ubl-validator-'));
+    return {
+        dirPath,
+        cleanup: () => {
+            try {
+                fs.rmSync(dirPath, { recursive: true, force: true });
+            } catch {
+                // ignore cleanup errors
+            }
+        },
+    };
+}
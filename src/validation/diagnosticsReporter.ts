@@ -1,10 +1,42 @@
 import * as vscode from 'vscode';
-import { ValidationIssue, ValidationResult } from './types';
+import { IssueSeverity, ValidationIssue, ValidationResult } from './types';
 import { TracedIssue } from '../tracing/errorTraceMapper';
+import { createValidationReport, ValidationReport } from '../reporting/reportFormats';
+import { ruleDocumentUri } from '../analysis/ruleDocumentation';
 
 // Store traced issues per URI so the AI agent can retrieve full trace data from a diagnostic
 const tracedIssueStore = new Map<string, TracedIssue[]>();
 
+// Last completed validation run, kept for report export and the sidebar views
+let lastValidationReport: ValidationReport | undefined;
+let lastValidationUri: vscode.Uri | undefined;
+
+const reportStored = new vscode.EventEmitter<vscode.Uri>();
+
+/** Fires with the validated document's URI whenever a run's report is stored */
+export const onDidStoreValidationReport = reportStored.event;
+
+export function storeValidationReport(
+    uri: vscode.Uri,
+    result: ValidationResult,
+    tracedIssues?: TracedIssue[],
+    transform?: { sourceXml: string; xsltStylesheet: string }
+): void {
+    const documentPath = uri.scheme === 'file' ? uri.fsPath : uri.toString();
+    lastValidationReport = createValidationReport(documentPath, result, tracedIssues, transform);
+    lastValidationUri = uri;
+    reportStored.fire(uri);
+}
+
+export function getLastValidationReport(): ValidationReport | undefined {
+    return lastValidationReport;
+}
+
+/** URI of the document the last report is about, for opening it again */
+export function getLastValidationUri(): vscode.Uri | undefined {
+    return lastValidationUri;
+}
+
 export function storeTracedIssues(uri: vscode.Uri, issues: TracedIssue[]): void {
     tracedIssueStore.set(uri.toString(), issues);
 }
@@ -24,19 +56,40 @@ export function getTracedIssues(uri: vscode.Uri): TracedIssue[] | undefined {
     return tracedIssueStore.get(uri.toString());
 }
 
+export function toDiagnosticSeverity(severity: IssueSeverity): vscode.DiagnosticSeverity {
+    switch (severity) {
+        case IssueSeverity.Error:
+            return vscode.DiagnosticSeverity.Error;
+        case IssueSeverity.Warning:
+            return vscode.DiagnosticSeverity.Warning;
+        case IssueSeverity.Information:
+            return vscode.DiagnosticSeverity.Information;
+        default:
+            return vscode.DiagnosticSeverity.Hint;
+    }
+}
+
+/** The node's extent when known, otherwise the rest of the issue's line */
+export function issueRange(issue: ValidationIssue): vscode.Range {
+    const line = Math.max(0, issue.line - 1); // VS Code is 0-indexed
+    if (issue.endLine !== undefined && issue.endColumn !== undefined) {
+        return new vscode.Range(line, issue.column, Math.max(0, issue.endLine - 1), issue.endColumn);
+    }
+    return new vscode.Range(line, issue.column, line, Number.MAX_SAFE_INTEGER);
+}
+
 export function reportDiagnostics(
     collection: vscode.DiagnosticCollection,
     uri: vscode.Uri,
     issues: ValidationIssue[]
 ): void {
     const diagnostics: vscode.Diagnostic[] = issues.map(issue => {
-        const line = Math.max(0, issue.line - 1); // VS Code is 0-indexed
-        const range = new vscode.Range(line, issue.column, line, Number.MAX_SAFE_INTEGER);
+        const range = issueRange(issue);
 
-        const diagnostic = new vscode.Diagnostic(range, issue.message, issue.severity);
+        const diagnostic = new vscode.Diagnostic(range, issue.message, toDiagnosticSeverity(issue.severity));
         diagnostic.source = `ubl-${issue.source}`;
         if (issue.ruleId) {
-            diagnostic.code = issue.ruleId;
+            diagnostic.code = { value: issue.ruleId, target: ruleDocumentUri(issue.ruleId) };
         }
 
         return diagnostic;
@@ -51,12 +104,11 @@ export function reportTracedDiagnostics(
     tracedIssues: TracedIssue[]
 ): void {
     const diagnostics: vscode.Diagnostic[] = tracedIssues.map(issue => {
-        const line = Math.max(0, issue.line - 1);
-        const range = new vscode.Range(line, issue.column, line, Number.MAX_SAFE_INTEGER);
-        const diagnostic = new vscode.Diagnostic(range, issue.message, issue.severity);
+        const range = issueRange(issue);
+        const diagnostic = new vscode.Diagnostic(range, issue.message, toDiagnosticSeverity(issue.severity));
         diagnostic.source = `ubl-${issue.source}`;
         if (issue.ruleId) {
-            diagnostic.code = issue.ruleId;
+            diagnostic.code = { value: issue.ruleId, target: ruleDocumentUri(issue.ruleId) };
         }
 
         // Add related information linking to the exact XSLT source line
@@ -86,10 +138,10 @@ export function reportTracedDiagnostics(
 
 export function showSummaryNotification(result: ValidationResult): void {
     const errors = result.issues.filter(
-        i => i.severity === vscode.DiagnosticSeverity.Error
+        i => i.severity === IssueSeverity.Error
     ).length;
     const warnings = result.issues.filter(
-        i => i.severity === vscode.DiagnosticSeverity.Warning
+        i => i.severity === IssueSeverity.Warning
     ).length;
 
     if (errors === 0 && warnings === 0) {
@@ -113,20 +165,23 @@ export function showSummaryNotification(result: ValidationResult): void {
     if (!result.xsdPassed) {
         details.push('XSD');
     }
-    if (result.en16931Passed === false) {
-        details.push('EN16931');
-    }
-    if (result.peppolPassed === false) {
-        details.push('Peppol');
+    for (const ruleset of result.rulesetResults) {
+        if (!ruleset.passed) {
+            details.push(ruleset.label);
+        }
     }
 
     const failedSources = details.length > 0
         ? ` Failed: ${details.join(', ')}.`
         : '';
 
-    if (errors > 0) {
-        vscode.window.showErrorMessage(`${summary}${failedSources}`);
-    } else {
-        vscode.window.showWarningMessage(`${summary}${failedSources}`);
-    }
+    const message = `${summary}${failedSources}`;
+    const shown = errors > 0
+        ? vscode.window.showErrorMessage(message, 'Show Report')
+        : vscode.window.showWarningMessage(message, 'Show Report');
+    shown.then(choice => {
+        if (choice) {
+            vscode.commands.executeCommand('xslt-transformer.showReport');
+        }
+    });
 }
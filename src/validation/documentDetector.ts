@@ -1,7 +1,8 @@
 import * as fs from 'fs';
-import { UblDocumentInfo } from './types';
+import { CiiDocumentInfo, DocumentInfo, UblDocumentInfo } from './types';
 
 const UBL_21_NS = 'urn:oasis:names:specification:ubl:schema:xsd:';
+const CII_D16B_NS = 'urn:un:unece:uncefact:data:standard:CrossIndustryInvoice:100';
 
 const UBL_DOCUMENT_TYPES: Record<string, string> = {
     'ApplicationResponse': 'ApplicationResponse-2',
@@ -84,6 +85,12 @@ const UBL_DOCUMENT_TYPES: Record<string, string> = {
 
 const INVOICE_OR_CREDIT_NOTE = new Set(['Invoice', 'CreditNote']);
 
+// CustomizationID follows UBLExtensions, which may hold large signatures, so scan the whole document
+const CUSTOMIZATION_ID_REGEX = /<(?:[a-zA-Z0-9_-]+:)?CustomizationID\b[^>]*>\s*([^<]*?)\s*<\//;
+
+const CII_GUIDELINE_ID_REGEX =
+    /<(?:[a-zA-Z0-9_-]+:)?GuidelineSpecifiedDocumentContextParameter\b[^>]*>\s*<(?:[a-zA-Z0-9_-]+:)?ID\b[^>]*>\s*([^<]*?)\s*<\//;
+
 export function detectUblDocumentFromContent(content: string): UblDocumentInfo | null {
     // Look at the first 2000 chars for the root element
     const head = content.substring(0, 2000);
@@ -103,10 +110,12 @@ export function detectUblDocumentFromContent(content: string): UblDocumentInfo |
     const namespace = `${UBL_21_NS}${rootElement}-2`;
 
     return {
+        syntax: 'ubl',
         rootElement,
         namespace,
         documentType: xsdName,
         isInvoiceOrCreditNote: INVOICE_OR_CREDIT_NOTE.has(rootElement),
+        customizationId: content.match(CUSTOMIZATION_ID_REGEX)?.[1] || undefined,
     };
 }
 
@@ -114,3 +123,33 @@ export function detectUblDocument(filePath: string): UblDocumentInfo | null {
     const content = fs.readFileSync(filePath, 'utf8');
     return detectUblDocumentFromContent(content);
 }
+
+export function detectCiiDocumentFromContent(content: string): CiiDocumentInfo | null {
+    const head = content.substring(0, 2000);
+
+    const rootMatch = head.match(/<(?:([a-zA-Z0-9_-]+):)?CrossIndustryInvoice[\s>]/);
+    if (!rootMatch || !head.includes(CII_D16B_NS)) {
+        return null;
+    }
+
+    return {
+        syntax: 'cii',
+        rootElement: 'CrossIndustryInvoice',
+        namespace: CII_D16B_NS,
+        documentType: 'CrossIndustryInvoice',
+        isInvoiceOrCreditNote: true,
+        customizationId: content.match(CII_GUIDELINE_ID_REGEX)?.[1] || undefined,
+    };
+}
+
+/**
+ * Detects any document the validator supports: UBL 2.1 first, then CII D16B.
+ */
+export function detectDocumentFromContent(content: string): DocumentInfo | null {
+    return detectUblDocumentFromContent(content) ?? detectCiiDocumentFromContent(content);
+}
+
+export function detectDocument(filePath: string): DocumentInfo | null {
+    const content = fs.readFileSync(filePath, 'utf8');
+    return detectDocumentFromContent(content);
+}
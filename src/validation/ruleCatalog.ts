@@ -0,0 +1,279 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { childElements, parseXmlDocument, XmlElement } from '../xml/xmlDom';
+import { loadRulesetRegistry } from './rulesetRegistry';
+
+const SCHEMATRON_NAMESPACE = 'http://purl.oclc.org/dsdl/schematron';
+const XSL_NAMESPACE = 'http://www.w3.org/1999/XSL/Transform';
+const SVRL_NAMESPACE = 'http://purl.oclc.org/dsdl/svrl';
+
+// EN16931 business terms and groups, e.g. BT-112, BG-4
+const BUSINESS_TERM_REGEX = /\b(B[TG])-(\d+)\b/g;
+
+/** One assert or report of a Schematron ruleset */
+export interface RuleDefinition {
+    id: string;
+    /** Ruleset registry id the rule belongs to */
+    rulesetId: string;
+    rulesetLabel: string;
+    /** Message text, without the "[ID]-" prefix some rulesets add */
+    text: string;
+    /** XPath of the rule context the assertion is evaluated on */
+    context: string;
+    /** XPath test; the assertion fails when it is false (reports: when true) */
+    test: string;
+    /** "fatal", "warning" or "information" as written in the Schematron */
+    flag: string;
+    kind: 'assert' | 'report';
+    /** BT/BG identifiers mentioned in the rule text, in order of appearance */
+    businessTerms: string[];
+}
+
+/** Rules by ID; one ID can exist in several rulesets (e.g. the UBL and CII EN16931 rules) */
+export type RuleCatalog = Map<string, RuleDefinition[]>;
+
+const catalogCache = new Map<string, RuleCatalog>();
+
+function walk(element: XmlElement, visit: (element: XmlElement) => void): void {
+    visit(element);
+    for (const child of childElements(element)) {
+        walk(child, visit);
+    }
+}
+
+function isElement(element: XmlElement, namespaceUri: string, localName: string): boolean {
+    return element.namespaceUri === namespaceUri && element.localName === localName;
+}
+
+/** Text content, with embedded value-of/name shown as {expression} placeholders */
+function messageText(element: XmlElement): string {
+    let text = '';
+    for (const child of element.children) {
+        if (child.type === 'text') {
+            text += child.value;
+        } else if (child.type === 'element') {
+            if (child.localName === 'value-of') {
+                text += `{${child.attributes.get('select') ?? ''}}`;
+            } else if (child.localName === 'name') {
+                text += `{${child.attributes.get('path') ?? 'name()'}}`;
+            } else {
+                text += messageText(child);
+            }
+        }
+    }
+    return text.replace(/\s+/g, ' ').trim();
+}
+
+function extractBusinessTerms(text: string): string[] {
+    const terms: string[] = [];
+    for (const match of text.matchAll(BUSINESS_TERM_REGEX)) {
+        const term = `${match[1]}-${match[2]}`;
+        if (!terms.includes(term)) {
+            terms.push(term);
+        }
+    }
+    return terms;
+}
+
+function createRule(
+    id: string,
+    text: string,
+    fields: Omit<RuleDefinition, 'id' | 'text' | 'businessTerms'>
+): RuleDefinition {
+    // EN16931 messages repeat the ID: "[BR-52]-Each Additional supporting document ..."
+    const cleanText = text.replace(/^\[[^\]]+\]\s*-?\s*/, '');
+    return { id, text: cleanText, businessTerms: extractBusinessTerms(cleanText), ...fields };
+}
+
+/** Rules of a Schematron source file (rule/@context with assert and report children) */
+function extractFromSchematron(root: XmlElement, rulesetId: string, rulesetLabel: string): RuleDefinition[] {
+    const rules: RuleDefinition[] = [];
+    walk(root, element => {
+        if (!isElement(element, SCHEMATRON_NAMESPACE, 'rule')) {
+            return;
+        }
+        const context = element.attributes.get('context') ?? '';
+        for (const child of childElements(element)) {
+            const kind = child.namespaceUri === SCHEMATRON_NAMESPACE ? child.localName : '';
+            const id = child.attributes.get('id');
+            if ((kind !== 'assert' && kind !== 'report') || !id) {
+                continue;
+            }
+            rules.push(createRule(id, messageText(child), {
+                rulesetId,
+                rulesetLabel,
+                context,
+                test: child.attributes.get('test') ?? '',
+                flag: child.attributes.get('flag') ?? 'fatal',
+                kind,
+            }));
+        }
+    });
+    return rules;
+}
+
+function xslAttributeValue(element: XmlElement, name: string): string | undefined {
+    const attribute = childElements(element).find(c =>
+        isElement(c, XSL_NAMESPACE, 'attribute') && c.attributes.get('name') === name
+    );
+    return attribute ? messageText(attribute) : undefined;
+}
+
+/**
+ * Rules of a compiled Schematron XSLT: each rule is a template with an
+ * svrl:fired-rule carrying the context, and svrl:failed-assert or
+ * svrl:successful-report literals carrying the test, id, flag and text.
+ */
+function extractFromCompiledXslt(root: XmlElement, rulesetId: string, rulesetLabel: string): RuleDefinition[] {
+    const rules: RuleDefinition[] = [];
+    walk(root, template => {
+        if (!isElement(template, XSL_NAMESPACE, 'template')) {
+            return;
+        }
+        const firedRule = childElements(template).find(c => isElement(c, SVRL_NAMESPACE, 'fired-rule'));
+        if (!firedRule) {
+            return;
+        }
+        const context = firedRule.attributes.get('context') ?? template.attributes.get('match') ?? '';
+        walk(template, element => {
+            const isAssert = isElement(element, SVRL_NAMESPACE, 'failed-assert');
+            if (!isAssert && !isElement(element, SVRL_NAMESPACE, 'successful-report')) {
+                return;
+            }
+            const id = element.attributes.get('id') ?? xslAttributeValue(element, 'id');
+            if (!id) {
+                return;
+            }
+            const textElement = childElements(element).find(c => isElement(c, SVRL_NAMESPACE, 'text'));
+            rules.push(createRule(id, textElement ? messageText(textElement) : '', {
+                rulesetId,
+                rulesetLabel,
+                context,
+                test: element.attributes.get('test') ?? '',
+                flag: element.attributes.get('flag') ?? xslAttributeValue(element, 'flag') ?? 'fatal',
+                kind: isAssert ? 'assert' : 'report',
+            }));
+        });
+    });
+    return rules;
+}
+
+/**
+ * Prefers the Schematron source next to the compiled XSLT (same base name,
+ * .sch extension) since its contexts and tests are as the authors wrote them.
+ */
+function rulesetSourceFile(artifactsPath: string, xslt: string): string | undefined {
+    const xsltPath = path.join(artifactsPath, xslt);
+    const schPath = xsltPath.replace(/\.xslt?$/i, '.sch');
+    if (schPath !== xsltPath && fs.existsSync(schPath)) {
+        return schPath;
+    }
+    return fs.existsSync(xsltPath) ? xsltPath : undefined;
+}
+
+/**
+ * Builds the rule catalogue from the bundled rulesets. Rulesets whose files
+ * are not installed are skipped; unparsable files are skipped too, since
+ * missing documentation shouldn't stop validation. Cached per artifacts path.
+ */
+export function loadRuleCatalog(artifactsPath: string): RuleCatalog {
+    const cached = catalogCache.get(artifactsPath);
+    if (cached) {
+        return cached;
+    }
+
+    const catalog: RuleCatalog = new Map();
+    for (const ruleset of loadRulesetRegistry(artifactsPath)) {
+        const file = rulesetSourceFile(artifactsPath, ruleset.xslt);
+        if (!file) {
+            continue;
+        }
+        let root: XmlElement;
+        try {
+            root = parseXmlDocument(fs.readFileSync(file, 'utf8')).root;
+        } catch {
+            continue;
+        }
+        const rules = root.namespaceUri === SCHEMATRON_NAMESPACE
+            ? extractFromSchematron(root, ruleset.id, ruleset.label)
+            : extractFromCompiledXslt(root, ruleset.id, ruleset.label);
+        for (const rule of rules) {
+            const entries = catalog.get(rule.id);
+            if (entries) {
+                entries.push(rule);
+            } else {
+                catalog.set(rule.id, [rule]);
+            }
+        }
+    }
+
+    catalogCache.set(artifactsPath, catalog);
+    return catalog;
+}
+
+export function lookupRule(artifactsPath: string, ruleId: string): RuleDefinition[] {
+    return loadRuleCatalog(artifactsPath).get(ruleId) ?? [];
+}
+
+/** The last step of a path expression, for naming elements in fix hints */
+function lastStep(xpath: string): string {
+    const steps = xpath.replace(/\[[^\]]*\]/g, '').split('/').filter(Boolean);
+    const step = steps[steps.length - 1];
+    return step && step !== '*' ? step : xpath;
+}
+
+/** Drops parentheses that wrap the whole expression, e.g. "(count(x) <= 1)" */
+function stripOuterParens(expression: string): string {
+    while (expression.startsWith('(') && expression.endsWith(')')) {
+        let depth = 0;
+        for (let i = 0; i < expression.length; i++) {
+            depth += expression[i] === '(' ? 1 : expression[i] === ')' ? -1 : 0;
+            if (depth === 0 && i < expression.length - 1) {
+                return expression;
+            }
+        }
+        expression = expression.slice(1, -1).trim();
+    }
+    return expression;
+}
+
+const SIMPLE_PATH = /^[\w:@.\/-]+(\[[^\]]*\])?(\/[\w:@.-]+)*$/;
+
+/**
+ * Fix hints derived from the shape of the test. They are phrased for
+ * stylesheet authors, since the document is produced by their XSLT.
+ */
+export function suggestFixes(rule: RuleDefinition): string[] {
+    const test = stripOuterParens(rule.test.replace(/\s+/g, ' ').trim());
+    const contextElement = lastStep(rule.context.split('|')[0].trim());
+    const fixes: string[] = [];
+
+    const alternatives = test.split(/\s+or\s+/).map(t => t.replace(/^exists\((.*)\)$/, '$1').trim());
+    const count = /^count\((.+)\)\s*(<=|=)\s*(\d+)$/.exec(test);
+
+    if (rule.kind === 'assert' && alternatives.every(a => SIMPLE_PATH.test(a))) {
+        fixes.push(alternatives.length === 1
+            ? `Make the template that writes \`${contextElement}\` also output \`${alternatives[0]}\`.`
+            : `Make the template that writes \`${contextElement}\` output one of: ${alternatives.map(a => `\`${a}\``).join(', ')}.`);
+    } else if (count) {
+        const [, target, operator, limit] = count;
+        fixes.push(operator === '='
+            ? `Output \`${target}\` exactly ${limit} time(s) in \`${contextElement}\`; check for-each loops that emit it per source record.`
+            : `Output \`${target}\` at most ${limit} time(s) in \`${contextElement}\`; merge or drop the extra occurrences.`);
+    } else if (/^not\(/.test(test) && rule.kind === 'assert') {
+        fixes.push(`Stop the stylesheet from writing what \`${test}\` excludes in \`${contextElement}\`, e.g. with an xsl:if guard.`);
+    }
+
+    if (/\bmatches\(|\bcontains\(\s*'\s/.test(test)) {
+        fixes.push('Use a value from the code list or pattern in the test; map source codes explicitly instead of copying them through.');
+    }
+    if (/round\(|xs:decimal|\d+\.\d+|[+*]/.test(test) && /amount|total|BT-1[01]\d/i.test(rule.text)) {
+        fixes.push('Compute the amount from the same rounded values the rule adds up, and output it with two decimals, e.g. `format-number($total, \'0.00\')`.');
+    }
+    if (/^\s*(string-length|normalize-space)\(/.test(test) || /!=\s*''/.test(test)) {
+        fixes.push(`Don't write \`${contextElement}\` when the source value is empty; wrap it in \`<xsl:if test="normalize-space(...)">\`.`);
+    }
+
+    fixes.push(`Find the template that produces \`${contextElement}\` with XSLT: Show Source-to-Output Mapping and compare its output against the test.`);
+    return fixes;
+}
@@ -0,0 +1,123 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DocumentInfo, DocumentSyntax } from './types';
+
+export type RulesetLayer = 'core' | 'cius';
+
+export interface RulesetDefinition {
+    id: string;
+    label: string;
+    /** Document syntax the XSLT is written for; defaults to 'ubl' */
+    syntax: DocumentSyntax;
+    /** core rulesets always run; CIUS rulesets are chosen by CustomizationID */
+    layer: RulesetLayer;
+    /** Compiled Schematron XSLT, relative to the artifacts directory */
+    xslt: string;
+    /** CustomizationID prefixes this CIUS applies to */
+    customizationIds?: string[];
+    /** CIUS to fall back to when no other CIUS matches the document */
+    default?: boolean;
+    description?: string;
+}
+
+const REGISTRY_FILE = path.join('schematron', 'rulesets.json');
+
+const registryCache = new Map<string, RulesetDefinition[]>();
+
+export function loadRulesetRegistry(artifactsPath: string): RulesetDefinition[] {
+    const cached = registryCache.get(artifactsPath);
+    if (cached) {
+        return cached;
+    }
+
+    const registryPath = path.join(artifactsPath, REGISTRY_FILE);
+    if (!fs.existsSync(registryPath)) {
+        throw new Error(
+            `Schematron ruleset registry not found at ${registryPath}. ` +
+            `Please reinstall the extension or run the download-artifacts script.`
+        );
+    }
+
+    const parsed = JSON.parse(fs.readFileSync(registryPath, 'utf8'));
+    const rulesets = validateRegistry(parsed);
+    registryCache.set(artifactsPath, rulesets);
+    return rulesets;
+}
+
+function validateRegistry(obj: any): RulesetDefinition[] {
+    if (!obj || !Array.isArray(obj.rulesets)) {
+        throw new Error('Ruleset registry must have a "rulesets" array');
+    }
+    const ids = new Set<string>();
+    for (const r of obj.rulesets) {
+        if (!r.id || typeof r.id !== 'string') {
+            throw new Error('Each ruleset must have an "id" string');
+        }
+        if (ids.has(r.id)) {
+            throw new Error(`Duplicate ruleset id "${r.id}"`);
+        }
+        ids.add(r.id);
+        if (r.id === 'xsd') {
+            throw new Error('Ruleset id "xsd" is reserved for schema validation');
+        }
+        if (r.layer !== 'core' && r.layer !== 'cius') {
+            throw new Error(`Ruleset "${r.id}": "layer" must be "core" or "cius"`);
+        }
+        if (!r.xslt || typeof r.xslt !== 'string') {
+            throw new Error(`Ruleset "${r.id}": missing "xslt"`);
+        }
+        if (r.syntax !== undefined && r.syntax !== 'ubl' && r.syntax !== 'cii') {
+            throw new Error(`Ruleset "${r.id}": "syntax" must be "ubl" or "cii"`);
+        }
+        if (r.customizationIds !== undefined && !Array.isArray(r.customizationIds)) {
+            throw new Error(`Ruleset "${r.id}": "customizationIds" must be an array`);
+        }
+    }
+    return obj.rulesets.map((r: any) => ({ ...r, label: r.label || r.id, syntax: r.syntax || 'ubl' }));
+}
+
+export function getRuleset(artifactsPath: string, id: string): RulesetDefinition {
+    const ruleset = loadRulesetRegistry(artifactsPath).find(r => r.id === id);
+    if (!ruleset) {
+        throw new Error(`Unknown Schematron ruleset "${id}"`);
+    }
+    return ruleset;
+}
+
+/** Whether the ruleset's compiled XSLT is present; some ship only with scripts/download-artifacts.sh */
+export function isRulesetInstalled(artifactsPath: string, ruleset: RulesetDefinition): boolean {
+    return fs.existsSync(path.join(artifactsPath, ruleset.xslt));
+}
+
+export interface RulesetSelection {
+    /** Rulesets to run */
+    rulesets: RulesetDefinition[];
+    /** Rulesets that apply to the document but are not installed */
+    missing: RulesetDefinition[];
+}
+
+/**
+ * Picks the rulesets for a document's syntax: every core ruleset, plus the CIUS
+ * rulesets whose CustomizationID prefix matches the document. When no CIUS
+ * matches (or the document has no CustomizationID) the default CIUS runs,
+ * so plain EN16931 invoices keep getting Peppol checks. Rulesets that are
+ * not installed are returned as missing instead of being run; another CIUS
+ * never stands in for a matching one, since its rules would reject the
+ * document's CustomizationID.
+ */
+export function selectRulesets(artifactsPath: string, docInfo: DocumentInfo): RulesetSelection {
+    const registry = loadRulesetRegistry(artifactsPath).filter(r => r.syntax === docInfo.syntax);
+    const core = registry.filter(r => r.layer === 'core');
+    const cius = registry.filter(r => r.layer === 'cius');
+
+    const customizationId = docInfo.customizationId?.trim();
+    const matched = customizationId
+        ? cius.filter(r => (r.customizationIds ?? []).some(prefix => customizationId.startsWith(prefix)))
+        : [];
+
+    const selected = [...core, ...(matched.length > 0 ? matched : cius.filter(r => r.default))];
+    return {
+        rulesets: selected.filter(r => isRulesetInstalled(artifactsPath, r)),
+        missing: selected.filter(r => !isRulesetInstalled(artifactsPath, r)),
+    };
+}
@@ -1,250 +1,273 @@
-import * as fs from 'fs';
-import * as vscode from 'vscode';
-import { ValidationIssue } from './types';
+import { ActivePattern, IssueSeverity, SchematronDiagnostic, SchematronDetails, ValidationIssue } from './types';
+import { parseXml, XmlAttribute, XmlParseError } from '../xml/xmlParser';
+import { parseXmlDocument, XmlElement } from '../xml/xmlDom';
+import { elementHighlight, resolveXPath } from '../xml/xpathLocator';
+
+const SVRL_NAMESPACE = 'http://purl.oclc.org/dsdl/svrl';
 
 interface SvrlAssertion {
+    kind: 'assert' | 'report';
     id: string;
-    flag: string;
+    flag?: string;
+    role?: string;
+    test?: string;
     location: string;
+    context?: string;
+    pattern?: string;
     text: string;
+    diagnostics: SchematronDiagnostic[];
 }
 
-interface XPathSegment {
-    elementName: string;
-    index: number; // 1-based occurrence index
+export interface SvrlReport {
+    issues: ValidationIssue[];
+    activePatterns: ActivePattern[];
+    /**
+     * False when the output has no complete svrl:schematron-output, e.g. when
+     * Saxon stopped mid-document or printed something else; the issues are
+     * then only those reported before it stopped.
+     */
+    complete: boolean;
 }
 
 export function parseSvrlOutputFromContent(
     svrlXml: string,
     sourceContent: string,
-    source: 'en16931' | 'peppol'
-): ValidationIssue[] {
-    const sourceLines = sourceContent.split(/\r?\n/);
-    return parseSvrlWithLines(svrlXml, sourceLines, source);
+    source: string
+): SvrlReport {
+    return parseSvrlWithSource(svrlXml, sourceContent, source);
 }
 
-export function parseSvrlOutput(
-    svrlXml: string,
-    sourceFilePath: string,
-    source: 'en16931' | 'peppol'
-): ValidationIssue[] {
-    const sourceContent = fs.readFileSync(sourceFilePath, 'utf8');
-    const sourceLines = sourceContent.split(/\r?\n/);
-    return parseSvrlWithLines(svrlXml, sourceLines, source);
+function attributeValue(attributes: XmlAttribute[], name: string): string | undefined {
+    return attributes.find(a => a.name === name)?.value;
 }
 
-function parseSvrlWithLines(
-    svrlXml: string,
-    sourceLines: string[],
-    source: 'en16931' | 'peppol'
-): ValidationIssue[] {
-
-    const issues: ValidationIssue[] = [];
-
-    // Match failed-assert blocks
-    const failedAssertPattern = /<svrl:failed-assert[\s\S]*?<\/svrl:failed-assert>/g;
-    let match;
-    while ((match = failedAssertPattern.exec(svrlXml)) !== null) {
-        const block = match[0];
-        const assertion = parseAssertionBlock(block);
-        if (assertion) {
-            issues.push(assertionToIssue(assertion, sourceLines, source));
+/** Assertions and pattern coverage of an SVRL document, in document order */
+function readSvrl(svrlXml: string): { assertions: SvrlAssertion[]; activePatterns: ActivePattern[]; complete: boolean } {
+    let complete = false;
+    const assertions: SvrlAssertion[] = [];
+    const activePatterns: ActivePattern[] = [];
+    // Namespace declarations per open element, innermost last
+    const scopes: Array<Map<string, string>> = [];
+    let context: string | undefined;
+    let current: SvrlAssertion | undefined;
+    let diagnostic: SchematronDiagnostic | undefined;
+    // Depth of open svrl:text elements we collect text from
+    let textDepth = 0;
+
+    const resolve = (qualifiedName: string): { namespaceUri: string; localName: string } => {
+        const colon = qualifiedName.indexOf(':');
+        const prefix = colon === -1 ? '' : qualifiedName.slice(0, colon);
+        let namespaceUri = '';
+        for (let i = scopes.length - 1; i >= 0; i--) {
+            const uri = scopes[i].get(prefix);
+            if (uri !== undefined) {
+                namespaceUri = uri;
+                break;
+            }
         }
-    }
+        return { namespaceUri, localName: colon === -1 ? qualifiedName : qualifiedName.slice(colon + 1) };
+    };
+
+    const appendText = (text: string) => {
+        if (textDepth === 0) {
+            return;
+        }
+        if (diagnostic) {
+            diagnostic.text += text;
+        } else if (current) {
+            current.text += text;
+        }
+    };
+
+    try {
+        parseXml(svrlXml, {
+            onStartElement(name, attributes) {
+                const declarations = new Map<string, string>();
+                for (const attr of attributes) {
+                    if (attr.name === 'xmlns') {
+                        declarations.set('', attr.value);
+                    } else if (attr.name.startsWith('xmlns:')) {
+                        declarations.set(attr.name.slice(6), attr.value);
+                    }
+                }
+                scopes.push(declarations);
 
-    // Match successful-report blocks (warnings/info from Schematron)
-    const successfulReportPattern = /<svrl:successful-report[\s\S]*?<\/svrl:successful-report>/g;
-    while ((match = successfulReportPattern.exec(svrlXml)) !== null) {
-        const block = match[0];
-        const assertion = parseAssertionBlock(block);
-        if (assertion) {
-            issues.push(assertionToIssue(assertion, sourceLines, source));
+                const { namespaceUri, localName } = resolve(name);
+                if (textDepth > 0) {
+                    // Markup inside svrl:text (e.g. svrl:emph) only contributes its text
+                    textDepth++;
+                    return;
+                }
+                if (namespaceUri !== SVRL_NAMESPACE) {
+                    return;
+                }
+                switch (localName) {
+                    case 'active-pattern':
+                        activePatterns.push({
+                            id: attributeValue(attributes, 'id'),
+                            name: attributeValue(attributes, 'name'),
+                            firedRules: 0,
+                        });
+                        break;
+                    case 'fired-rule': {
+                        context = attributeValue(attributes, 'context');
+                        const pattern = activePatterns[activePatterns.length - 1];
+                        if (pattern) {
+                            pattern.firedRules++;
+                        }
+                        break;
+                    }
+                    case 'failed-assert':
+                    case 'successful-report': {
+                        const pattern = activePatterns[activePatterns.length - 1];
+                        current = {
+                            kind: localName === 'failed-assert' ? 'assert' : 'report',
+                            id: attributeValue(attributes, 'id') ?? '',
+                            flag: attributeValue(attributes, 'flag'),
+                            role: attributeValue(attributes, 'role'),
+                            test: attributeValue(attributes, 'test'),
+                            location: attributeValue(attributes, 'location') ?? '',
+                            context,
+                            pattern: pattern?.id ?? pattern?.name,
+                            text: '',
+                            diagnostics: [],
+                        };
+                        break;
+                    }
+                    case 'diagnostic-reference':
+                        if (current) {
+                            diagnostic = { id: attributeValue(attributes, 'diagnostic') ?? '', text: '' };
+                        }
+                        break;
+                    case 'text':
+                        if (current) {
+                            textDepth = 1;
+                        }
+                        break;
+                }
+            },
+            onEndElement(name) {
+                const { namespaceUri, localName } = resolve(name);
+                scopes.pop();
+                if (textDepth > 0) {
+                    textDepth--;
+                    return;
+                }
+                if (namespaceUri !== SVRL_NAMESPACE) {
+                    return;
+                }
+                if (localName === 'schematron-output' && scopes.length === 0) {
+                    complete = true;
+                } else if (localName === 'diagnostic-reference' && current && diagnostic) {
+                    current.diagnostics.push({ id: diagnostic.id, text: normalizeSpace(diagnostic.text) });
+                    diagnostic = undefined;
+                } else if ((localName === 'failed-assert' || localName === 'successful-report') && current) {
+                    current.text = normalizeSpace(current.text);
+                    assertions.push(current);
+                    current = undefined;
+                }
+            },
+            onText: appendText,
+            onCData: appendText,
+        });
+    } catch (error) {
+        // Saxon may stop mid-document on a fatal error; keep what was reported
+        // before that, with complete telling the caller the run didn't finish
+        if (!(error instanceof XmlParseError)) {
+            throw error;
         }
     }
 
-    return issues;
+    return { assertions, activePatterns, complete };
 }
 
-function parseAssertionBlock(block: string): SvrlAssertion | null {
-    const idMatch = block.match(/\bid="([^"]*?)"/);
-    const flagMatch = block.match(/\bflag="([^"]*?)"/);
-    const locationMatch = block.match(/\blocation="([^"]*?)"/);
-    const textMatch = block.match(/<svrl:text>([\s\S]*?)<\/svrl:text>/);
+function normalizeSpace(text: string): string {
+    return text.trim().replace(/\s+/g, ' ');
+}
 
-    if (!textMatch) {
-        return null;
+function parseSvrlWithSource(
+    svrlXml: string,
+    sourceContent: string,
+    source: string
+): SvrlReport {
+    const { assertions, activePatterns, complete } = readSvrl(svrlXml);
+    if (assertions.length === 0) {
+        return { issues: [], activePatterns, complete };
+    }
+    let sourceRoot: XmlElement | undefined;
+    try {
+        sourceRoot = parseXmlDocument(sourceContent).root;
+    } catch {
+        // Locations can't be resolved in a malformed document; issues go on line 1
     }
-
     return {
-        id: idMatch ? idMatch[1] : '',
-        flag: flagMatch ? flagMatch[1] : 'error',
-        location: locationMatch ? locationMatch[1] : '',
-        text: textMatch[1].replace(/<[^>]+>/g, '').trim().replace(/\s+/g, ' '),
+        issues: assertions.map(assertion => assertionToIssue(assertion, sourceRoot, source)),
+        activePatterns,
+        complete,
     };
 }
 
 function assertionToIssue(
     assertion: SvrlAssertion,
-    sourceLines: string[],
-    source: 'en16931' | 'peppol'
+    sourceRoot: XmlElement | undefined,
+    source: string
 ): ValidationIssue {
-    const line = resolveLineFromXPath(assertion.location, sourceLines);
-    const severity = mapFlagToSeverity(assertion.flag);
+    // Some rulesets put the severity in role instead of flag
+    const severity = mapFlagToSeverity(assertion.flag ?? assertion.role ?? 'error');
     const prefix = assertion.id ? `[${assertion.id}] ` : '';
 
-    return {
-        line,
+    const schematron: SchematronDetails = { kind: assertion.kind };
+    if (assertion.flag) {
+        schematron.flag = assertion.flag;
+    }
+    if (assertion.role) {
+        schematron.role = assertion.role;
+    }
+    if (assertion.test) {
+        schematron.test = assertion.test;
+    }
+    if (assertion.context) {
+        schematron.context = assertion.context;
+    }
+    if (assertion.pattern) {
+        schematron.pattern = assertion.pattern;
+    }
+    if (assertion.diagnostics.length > 0) {
+        schematron.diagnostics = assertion.diagnostics;
+    }
+
+    const issue: ValidationIssue = {
+        line: 1,
         column: 0,
         message: `${prefix}${assertion.text}`,
         severity,
         ruleId: assertion.id || undefined,
+        location: assertion.location || undefined,
         source,
+        schematron,
     };
+    const resolved = sourceRoot && assertion.location ? resolveXPath(sourceRoot, assertion.location) : undefined;
+    if (resolved) {
+        const { start, end } = elementHighlight(resolved.element);
+        issue.line = start.line;
+        issue.column = start.column;
+        issue.endLine = end.line;
+        issue.endColumn = end.column;
+    }
+    return issue;
 }
 
-function mapFlagToSeverity(flag: string): vscode.DiagnosticSeverity {
+function mapFlagToSeverity(flag: string): IssueSeverity {
     switch (flag.toLowerCase()) {
         case 'fatal':
         case 'error':
-            return vscode.DiagnosticSeverity.Error;
+            return IssueSeverity.Error;
         case 'warning':
-            return vscode.DiagnosticSeverity.Warning;
+            return IssueSeverity.Warning;
         case 'information':
         case 'info':
-            return vscode.DiagnosticSeverity.Information;
+            return IssueSeverity.Information;
         default:
-            return vscode.DiagnosticSeverity.Error;
+            return IssueSeverity.Error;
     }
 }
-
-/**
- * Parse an SVRL XPath location into structured segments.
- * XPaths look like: /*:Invoice[1]/*:AccountingSupplierParty[1]/*:Party[1]/*:PartyName[1]/*:Name[1]
- * or: /Invoice/AccountingSupplierParty[1]/Party[1]/PartyName[1]/Name[1]
- */
-function parseXPathSegments(xpath: string): XPathSegment[] {
-    const parts = xpath.split('/').filter(s => s.length > 0);
-    const segments: XPathSegment[] = [];
-
-    for (const part of parts) {
-        // Match patterns like: *:ElementName[2], cac:ElementName[1], ElementName, *:ElementName
-        const m = part.match(/(?:[a-zA-Z0-9_*-]+:)?([a-zA-Z][a-zA-Z0-9_-]*)\[?(\d+)?\]?/);
-        if (m) {
-            segments.push({
-                elementName: m[1],
-                index: m[2] ? parseInt(m[2], 10) : 1,
-            });
-        }
-    }
-
-    return segments;
-}
-
-/**
- * Find the line range (start, end) of the Nth occurrence of an element
- * within a given line range of the source. Tracks nesting depth to find
- * the matching closing tag so child searches are scoped correctly.
- */
-function findElementRange(
-    elementName: string,
-    occurrence: number,
-    sourceLines: string[],
-    searchStart: number,
-    searchEnd: number
-): { startLine: number; endLine: number } | null {
-    // Regex to find opening tags: <Element or <prefix:Element
-    const openRegex = new RegExp(`<(?:[a-zA-Z0-9_-]+:)?${escapeRegex(elementName)}(?:\\s|>|/)`);
-    // Regex to find self-closing tags on the same line
-    const selfCloseRegex = new RegExp(`<(?:[a-zA-Z0-9_-]+:)?${escapeRegex(elementName)}\\b[^>]*/>`);
-    // Regex to find closing tags
-    const closeRegex = new RegExp(`</(?:[a-zA-Z0-9_-]+:)?${escapeRegex(elementName)}\\s*>`);
-
-    let count = 0;
-
-    for (let i = searchStart; i <= searchEnd && i < sourceLines.length; i++) {
-        const line = sourceLines[i];
-        if (!openRegex.test(line)) {
-            continue;
-        }
-
-        count++;
-        if (count !== occurrence) {
-            continue;
-        }
-
-        // Found the right occurrence. Now find where it ends.
-        // Check for self-closing tag on same line
-        if (selfCloseRegex.test(line)) {
-            return { startLine: i, endLine: i };
-        }
-
-        // Walk forward to find the closing tag, tracking nesting depth
-        let depth = 1;
-        for (let j = i + 1; j <= searchEnd && j < sourceLines.length; j++) {
-            const scanLine = sourceLines[j];
-            // Count additional opens of the same element (nesting)
-            if (openRegex.test(scanLine) && !selfCloseRegex.test(scanLine)) {
-                depth++;
-            }
-            if (closeRegex.test(scanLine)) {
-                depth--;
-                if (depth === 0) {
-                    return { startLine: i, endLine: j };
-                }
-            }
-        }
-
-        // Couldn't find closing tag - return just the opening line
-        // with range extending to end of search area
-        return { startLine: i, endLine: searchEnd };
-    }
-
-    return null;
-}
-
-/**
- * Walk the full XPath from root to leaf, narrowing the search range at each
- * step so that each segment is resolved within its parent element's scope.
- * This correctly handles repeated element names (e.g. multiple InvoiceLine
- * each containing an Item/Name).
- */
-function resolveLineFromXPath(xpath: string, sourceLines: string[]): number {
-    if (!xpath) {
-        return 1;
-    }
-
-    const segments = parseXPathSegments(xpath);
-    if (segments.length === 0) {
-        return 1;
-    }
-
-    let rangeStart = 0;
-    let rangeEnd = sourceLines.length - 1;
-    let lastFoundLine = 0; // 0-indexed
-
-    for (const segment of segments) {
-        const range = findElementRange(
-            segment.elementName,
-            segment.index,
-            sourceLines,
-            rangeStart,
-            rangeEnd
-        );
-
-        if (!range) {
-            // Can't resolve further - use what we have so far
-            break;
-        }
-
-        lastFoundLine = range.startLine;
-        // Narrow scope: children live between the open and close of this element
-        rangeStart = range.startLine + 1;
-        rangeEnd = range.endLine;
-    }
-
-    return lastFoundLine + 1; // convert to 1-indexed
-}
-
-function escapeRegex(s: string): string {
-    return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-}
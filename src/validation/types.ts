@@ -1,27 +1,103 @@
-import * as vscode from 'vscode';
+/**
+ * Severity of a validation issue. The numeric values mirror
+ * vscode.DiagnosticSeverity so the validation layer stays free of any
+ * VS Code dependency and can run headless.
+ */
+export enum IssueSeverity {
+    Error = 0,
+    Warning = 1,
+    Information = 2,
+    Hint = 3,
+}
+
+export interface SchematronDiagnostic {
+    id: string;
+    text: string;
+}
+
+/** Details of the SVRL failed-assert or successful-report behind an issue */
+export interface SchematronDetails {
+    kind: 'assert' | 'report';
+    /** As written in the Schematron, e.g. "fatal" or "warning" */
+    flag?: string;
+    role?: string;
+    test?: string;
+    /** Context of the fired rule the assertion belongs to */
+    context?: string;
+    /** id (or name) of the active pattern the rule belongs to */
+    pattern?: string;
+    diagnostics?: SchematronDiagnostic[];
+}
 
 export interface ValidationIssue {
     line: number;
     column: number;
+    /** End of the offending node, when its extent in the document is known */
+    endLine?: number;
+    endColumn?: number;
     message: string;
-    severity: vscode.DiagnosticSeverity;
+    severity: IssueSeverity;
     ruleId?: string;
-    source: 'xsd' | 'en16931' | 'peppol';
+    /** XPath of the offending node as reported by Schematron (SVRL location) */
+    location?: string;
+    /** 'xsd' or the id of the Schematron ruleset that reported the issue */
+    source: string;
+    schematron?: SchematronDetails;
+}
+
+/** A pattern the Schematron run reported as active, with how many of its rules fired */
+export interface ActivePattern {
+    id?: string;
+    name?: string;
+    firedRules: number;
 }
 
+export type DocumentSyntax = 'ubl' | 'cii';
+
 export interface UblDocumentInfo {
+    syntax: 'ubl';
     rootElement: string;
     namespace: string;
     documentType: string;
     isInvoiceOrCreditNote: boolean;
+    /** cbc:CustomizationID, used to pick the CIUS rulesets */
+    customizationId?: string;
+}
+
+/** UN/CEFACT Cross Industry Invoice (D16B), as used by Factur-X and ZUGFeRD */
+export interface CiiDocumentInfo {
+    syntax: 'cii';
+    rootElement: 'CrossIndustryInvoice';
+    namespace: string;
+    documentType: 'CrossIndustryInvoice';
+    /** CII covers both invoices and credit notes (ram:TypeCode 380/381) */
+    isInvoiceOrCreditNote: true;
+    /** ram:GuidelineSpecifiedDocumentContextParameter/ram:ID, used to pick the CIUS rulesets */
+    customizationId?: string;
+}
+
+export type DocumentInfo = UblDocumentInfo | CiiDocumentInfo;
+
+export interface RulesetOutcome {
+    id: string;
+    label: string;
+    passed: boolean;
+    durationMs?: number;
+    /** Patterns that ran, from svrl:active-pattern; shows which parts of the ruleset were exercised */
+    activePatterns?: ActivePattern[];
 }
 
 export interface ValidationResult {
     issues: ValidationIssue[];
-    documentInfo: UblDocumentInfo | null;
+    documentInfo: DocumentInfo | null;
     xsdPassed: boolean;
-    en16931Passed: boolean | null; // null if not applicable
-    peppolPassed: boolean | null;  // null if not applicable
+    /** Schematron rulesets that ran, in registry order (empty if not applicable) */
+    rulesetResults: RulesetOutcome[];
+    xsdDurationMs?: number;
+    /** Wall time of the whole validation; passes overlap, so this is less than their sum */
+    durationMs?: number;
+    /** True when the issues came from the validation cache */
+    fromCache?: boolean;
 }
 
 export type ValidationScope = 'full' | 'xsd-only' | 'business-rules-only';
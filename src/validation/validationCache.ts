@@ -0,0 +1,204 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { RulesetOutcome, ValidationIssue, ValidationScope } from './types';
+
+/** The parts of a ValidationResult that depend only on content and artifacts */
+export interface CachedValidation {
+    issues: ValidationIssue[];
+    xsdPassed: boolean;
+    rulesetResults: RulesetOutcome[];
+}
+
+interface CacheEntry extends CachedValidation {
+    key: string;
+}
+
+// Bump when the shape or meaning of stored issues changes
+const CACHE_FORMAT = 3;
+
+// Entries kept on disk; the least recently used are dropped beyond this
+const MAX_ENTRIES = 500;
+
+let cacheDir: string | undefined;
+let cacheSalt = '';
+const memory = new Map<string, CachedValidation>();
+
+/**
+ * Turns the cache on and persists entries under storageDir. The salt (the
+ * extension version) keeps results from an older validator from being reused.
+ * Without this call, e.g. in the CLI, nothing is cached.
+ */
+export function configureValidationCache(storageDir: string | undefined, salt: string = ''): void {
+    cacheDir = storageDir ? path.join(storageDir, 'validation-cache') : undefined;
+    cacheSalt = salt;
+    memory.clear();
+}
+
+/** A computed fingerprint and the directory watchers that invalidate it */
+interface ArtifactsFingerprint {
+    value: Promise<string>;
+    watchers: fs.FSWatcher[];
+}
+
+// Fingerprints by artifacts path, kept until something in the tree changes
+const fingerprints = new Map<string, ArtifactsFingerprint>();
+
+function forgetFingerprint(artifactsPath: string, fingerprint: ArtifactsFingerprint): void {
+    for (const watcher of fingerprint.watchers) {
+        watcher.close();
+    }
+    if (fingerprints.get(artifactsPath) === fingerprint) {
+        fingerprints.delete(artifactsPath);
+    }
+}
+
+/** Closes the artifacts watchers; called when the extension deactivates */
+export function disposeValidationCache(): void {
+    for (const [artifactsPath, fingerprint] of [...fingerprints]) {
+        forgetFingerprint(artifactsPath, fingerprint);
+    }
+    memory.clear();
+}
+
+/**
+ * Hash of every file under the artifacts directory (path, size, mtime), so
+ * updated schemas or Schematron XSLTs invalidate all cached results. The
+ * walk covers thousands of UBL schemas, so the hash is kept per path and
+ * dropped when a watcher on one of the directories reports a change. Where
+ * a directory can't be watched it is computed again on every call.
+ */
+function artifactsFingerprint(artifactsPath: string): Promise<string> {
+    const memoized = fingerprints.get(artifactsPath);
+    if (memoized) {
+        return memoized.value;
+    }
+
+    const hash = crypto.createHash('sha256');
+    let watched = true;
+    const fingerprint: ArtifactsFingerprint = { value: Promise.resolve(''), watchers: [] };
+    const walk = async (dir: string): Promise<void> => {
+        // Watch before reading, so changes made during the walk aren't missed
+        try {
+            const watcher = fs.watch(dir, () => forgetFingerprint(artifactsPath, fingerprint));
+            watcher.on('error', () => forgetFingerprint(artifactsPath, fingerprint));
+            watcher.unref();
+            fingerprint.watchers.push(watcher);
+        } catch {
+            watched = false;
+        }
+        let entries: fs.Dirent[];
+        try {
+            entries = await fs.promises.readdir(dir, { withFileTypes: true });
+        } catch {
+            return;
+        }
+        entries.sort((a, b) => a.name.localeCompare(b.name));
+        for (const entry of entries) {
+            const full = path.join(dir, entry.name);
+            if (entry.isDirectory()) {
+                await walk(full);
+            } else if (entry.isFile()) {
+                const stat = await fs.promises.stat(full);
+                hash.update(`${path.relative(artifactsPath, full)}\0${stat.size}\0${stat.mtimeMs}\n`);
+            }
+        }
+    };
+
+    fingerprint.value = walk(artifactsPath).then(() => {
+        if (!watched) {
+            forgetFingerprint(artifactsPath, fingerprint);
+        }
+        return hash.digest('hex');
+    }, error => {
+        forgetFingerprint(artifactsPath, fingerprint);
+        throw error;
+    });
+    fingerprints.set(artifactsPath, fingerprint);
+    return fingerprint.value;
+}
+
+export async function validationCacheKey(
+    content: string,
+    artifactsPath: string,
+    scope: ValidationScope
+): Promise<string | undefined> {
+    if (!cacheDir) {
+        return undefined;
+    }
+    let fingerprint: string;
+    try {
+        fingerprint = await artifactsFingerprint(artifactsPath);
+    } catch {
+        // A file vanished or became unreadable mid-walk; validate without caching
+        return undefined;
+    }
+    const hash = crypto.createHash('sha256');
+    hash.update(`${CACHE_FORMAT}\0${cacheSalt}\0${scope}\0`);
+    hash.update(fingerprint);
+    hash.update('\0');
+    hash.update(content);
+    return hash.digest('hex');
+}
+
+function entryPath(key: string): string {
+    return path.join(cacheDir!, `${key}.json`);
+}
+
+export function getCachedValidation(key: string): CachedValidation | undefined {
+    const inMemory = memory.get(key);
+    if (inMemory) {
+        return inMemory;
+    }
+    if (!cacheDir) {
+        return undefined;
+    }
+    try {
+        const file = entryPath(key);
+        const entry: CacheEntry = JSON.parse(fs.readFileSync(file, 'utf8'));
+        if (entry.key !== key) {
+            return undefined;
+        }
+        // Touch the file so pruning keeps recently used entries
+        const now = new Date();
+        fs.utimesSync(file, now, now);
+        const cached = { issues: entry.issues, xsdPassed: entry.xsdPassed, rulesetResults: entry.rulesetResults };
+        memory.set(key, cached);
+        return cached;
+    } catch {
+        return undefined;
+    }
+}
+
+export function storeCachedValidation(key: string, result: CachedValidation): void {
+    if (!cacheDir) {
+        return;
+    }
+    const cached: CachedValidation = {
+        issues: result.issues,
+        xsdPassed: result.xsdPassed,
+        rulesetResults: result.rulesetResults,
+    };
+    memory.set(key, cached);
+    try {
+        fs.mkdirSync(cacheDir, { recursive: true });
+        fs.writeFileSync(entryPath(key), JSON.stringify({ key, ...cached }), 'utf8');
+        pruneCache();
+    } catch {
+        // A cache that can't be written just means validating again next time
+    }
+}
+
+function pruneCache(): void {
+    const files = fs.readdirSync(cacheDir!).filter(f => f.endsWith('.json'));
+    if (files.length <= MAX_ENTRIES) {
+        return;
+    }
+    const byAge = files
+        .map(f => ({ file: path.join(cacheDir!, f), mtime: fs.statSync(path.join(cacheDir!, f)).mtimeMs }))
+        .sort((a, b) => a.mtime - b.mtime);
+    for (const { file } of byAge.slice(0, files.length - MAX_ENTRIES)) {
+        fs.unlinkSync(file);
+        memory.delete(path.basename(file, '.json'));
+    }
+}
@@ -1,28 +1,53 @@
+import * as fs from 'fs';
 import * as path from 'path';
-import * as vscode from 'vscode';
-import { ValidationIssue, UblDocumentInfo } from './types';
+import { DocumentInfo, IssueSeverity, ValidationIssue } from './types';
 import { execAsync, checkToolAvailable } from '../utils/execAsync';
 import { writeTempFile } from '../utils/tempFile';
 import { runXsdValidator } from '../utils/javaRunner';
 
+function resolveXsdFile(docInfo: DocumentInfo, artifactsPath: string): string {
+    if (docInfo.syntax === 'cii') {
+        return path.join(artifactsPath, 'xsd', 'cii-d16b', 'CrossIndustryInvoice_100pD16B.xsd');
+    }
+    return path.join(
+        artifactsPath, 'xsd', 'ubl-2.1', 'maindoc',
+        `UBL-${docInfo.rootElement}-2.1.xsd`
+    );
+}
+
+/**
+ * Whether the schema for the document is present. The CII D16B schemas are
+ * not bundled; scripts/download-artifacts.sh installs them.
+ */
+export function isXsdInstalled(docInfo: DocumentInfo, artifactsPath: string): boolean {
+    return fs.existsSync(resolveXsdFile(docInfo, artifactsPath));
+}
+
 export async function validateXsd(
     filePath: string,
-    docInfo: UblDocumentInfo,
+    docInfo: DocumentInfo,
     artifactsPath: string,
-    extensionPath: string
+    extensionPath: string,
+    signal?: AbortSignal
 ): Promise<ValidationIssue[]> {
-    const xsdFile = path.join(
-        artifactsPath, 'xsd', 'ubl-2.1', 'maindoc',
-        `UBL-${docInfo.rootElement}-2.1.xsd`
-    );
+    const xsdFile = resolveXsdFile(docInfo, artifactsPath);
+    if (!fs.existsSync(xsdFile)) {
+        throw new Error(
+            `XSD not found at ${xsdFile}. ` +
+            `Please reinstall the extension or run the download-artifacts script.`
+        );
+    }
 
     // Try xmllint first
     const xmllintAvailable = await checkToolAvailable('xmllint');
     if (xmllintAvailable) {
         try {
-            await execAsync('xmllint', ['--noout', '--schema', xsdFile, filePath]);
+            await execAsync('xmllint', ['--noout', '--schema', xsdFile, filePath], { signal });
             return [];
         } catch (error: any) {
+            if (signal?.aborted) {
+                throw error;
+            }
             const stderr: string = error.stderr || '';
             return parseXmllintErrors(stderr, filePath);
         }
@@ -30,23 +55,27 @@ export async function validateXsd(
 
     // Fallback to bundled Java XSD validator
     try {
-        await runXsdValidator(extensionPath, xsdFile, filePath);
+        await runXsdValidator(extensionPath, xsdFile, filePath, signal);
         return [];
     } catch (error: any) {
-        const stderr: string = error.stderr || '';
-        return parseXmllintErrors(stderr, filePath);
+        if (!error.stderr) {
+            // Java missing or the schema failed to load: not a validity result
+            throw error;
+        }
+        return parseXmllintErrors(error.stderr, filePath);
     }
 }
 
 export async function validateXsdFromContent(
     content: string,
-    docInfo: UblDocumentInfo,
+    docInfo: DocumentInfo,
     artifactsPath: string,
-    extensionPath: string
+    extensionPath: string,
+    signal?: AbortSignal
 ): Promise<ValidationIssue[]> {
     const tmp = writeTempFile(content, '.xml');
     try {
-        return await validateXsd(tmp.filePath, docInfo, artifactsPath, extensionPath);
+        return await validateXsd(tmp.filePath, docInfo, artifactsPath, extensionPath, signal);
     } finally {
         tmp.cleanup();
     }
@@ -65,7 +94,7 @@ function parseXmllintErrors(stderr: string, filePath: string): ValidationIssue[]
                 line: parseInt(match[1], 10),
                 column: 0,
                 message: match[3].trim(),
-                severity: vscode.DiagnosticSeverity.Error,
+                severity: IssueSeverity.Error,
                 source: 'xsd',
             });
             continue;
@@ -78,7 +107,7 @@ function parseXmllintErrors(stderr: string, filePath: string): ValidationIssue[]
                 line: parseInt(simpleMatch[1], 10),
                 column: 0,
                 message: simpleMatch[2].trim(),
-                severity: vscode.DiagnosticSeverity.Error,
+                severity: IssueSeverity.Error,
                 source: 'xsd',
             });
         }
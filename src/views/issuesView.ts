@@ -0,0 +1,139 @@
+import * as vscode from 'vscode';
+import { formatBusinessTerm, getBusinessTerm } from '../semantic/businessTerms';
+import { TracedIssue } from '../tracing/errorTraceMapper';
+import { getLastValidationReport, getLastValidationUri, issueRange } from '../validation/diagnosticsReporter';
+import { IssueSeverity } from '../validation/types';
+
+type IssuesNode =
+    | { kind: 'layer'; source: string; label: string; issues: TracedIssue[] }
+    | { kind: 'rule'; ruleId: string; issues: TracedIssue[] }
+    | { kind: 'issue'; issue: TracedIssue };
+
+function severityIcon(severity: IssueSeverity): vscode.ThemeIcon {
+    switch (severity) {
+        case IssueSeverity.Error:
+            return new vscode.ThemeIcon('error', new vscode.ThemeColor('problemsErrorIcon.foreground'));
+        case IssueSeverity.Warning:
+            return new vscode.ThemeIcon('warning', new vscode.ThemeColor('problemsWarningIcon.foreground'));
+        default:
+            return new vscode.ThemeIcon('info', new vscode.ThemeColor('problemsInfoIcon.foreground'));
+    }
+}
+
+function groupBy<K>(issues: TracedIssue[], key: (issue: TracedIssue) => K): Map<K, TracedIssue[]> {
+    const groups = new Map<K, TracedIssue[]>();
+    for (const issue of issues) {
+        const k = key(issue);
+        const group = groups.get(k);
+        if (group) {
+            group.push(issue);
+        } else {
+            groups.set(k, [issue]);
+        }
+    }
+    return groups;
+}
+
+function businessTermLabel(id: string): string {
+    const term = getBusinessTerm(id);
+    return term ? formatBusinessTerm(term) : id;
+}
+
+function countLabel(issues: TracedIssue[]): string {
+    const errors = issues.filter(i => i.severity === IssueSeverity.Error).length;
+    const others = issues.length - errors;
+    return others > 0 ? `${errors} error(s), ${others} other` : `${errors} error(s)`;
+}
+
+/** Issues of the last validation, grouped by layer (XSD, each ruleset) and then by rule ID */
+export class IssuesTreeProvider implements vscode.TreeDataProvider<IssuesNode> {
+    private _onDidChangeTreeData = new vscode.EventEmitter<void>();
+    readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    refresh(): void {
+        this._onDidChangeTreeData.fire();
+    }
+
+    getTreeItem(node: IssuesNode): vscode.TreeItem {
+        switch (node.kind) {
+            case 'layer': {
+                const item = new vscode.TreeItem(node.label, vscode.TreeItemCollapsibleState.Expanded);
+                item.description = countLabel(node.issues);
+                item.iconPath = new vscode.ThemeIcon('layers');
+                return item;
+            }
+            case 'rule': {
+                const item = new vscode.TreeItem(node.ruleId, vscode.TreeItemCollapsibleState.Collapsed);
+                item.description = `${node.issues.length}`;
+                item.tooltip = node.issues[0].message;
+                item.iconPath = severityIcon(Math.min(...node.issues.map(i => i.severity)));
+                return item;
+            }
+            case 'issue': {
+                const { issue } = node;
+                const item = new vscode.TreeItem(issue.message, vscode.TreeItemCollapsibleState.None);
+                item.description = issue.xsltSourceLine
+                    ? `line ${issue.line} ← XSLT line ${issue.xsltSourceLine}`
+                    : `line ${issue.line}`;
+                item.tooltip = [issue.message, issue.location, issue.businessTerm && businessTermLabel(issue.businessTerm)]
+                    .filter(Boolean)
+                    .join('\n');
+                item.iconPath = severityIcon(issue.severity);
+                item.command = { command: 'xslt-transformer.revealIssue', title: 'Reveal', arguments: [issue] };
+                return item;
+            }
+        }
+    }
+
+    getChildren(node?: IssuesNode): IssuesNode[] {
+        if (!node) {
+            const report = getLastValidationReport();
+            if (!report) {
+                return [];
+            }
+            const labels = new Map(report.result.rulesetResults.map(r => [r.id, r.label]));
+            return [...groupBy(report.issues, i => i.source)].map(([source, issues]) => ({
+                kind: 'layer',
+                source,
+                label: source === 'xsd' ? 'XSD' : labels.get(source) ?? source,
+                issues,
+            }));
+        }
+        if (node.kind === 'layer') {
+            // XSD errors have no rule ID; group them under one node
+            return [...groupBy(node.issues, i => i.ruleId ?? (node.source === 'xsd' ? 'Schema' : 'Other'))]
+                .map(([ruleId, issues]) => ({ kind: 'rule', ruleId, issues }));
+        }
+        if (node.kind === 'rule') {
+            return node.issues.map(issue => ({ kind: 'issue', issue }));
+        }
+        return [];
+    }
+}
+
+/**
+ * Opens the validated document at the issue, selecting the offending element
+ * when its extent is known, and, when the issue was traced, the XSLT line
+ * that produced the element beside it.
+ */
+export async function revealIssue(issue: TracedIssue): Promise<void> {
+    const uri = getLastValidationUri();
+    if (!uri) {
+        return;
+    }
+    const range = issueRange(issue);
+    const outputEditor = await vscode.window.showTextDocument(uri, {
+        selection: issue.endLine !== undefined ? range : new vscode.Range(range.start, range.start),
+        preview: true,
+    });
+
+    if (issue.xsltSourceFile && issue.xsltSourceLine) {
+        const xsltLine = Math.max(0, issue.xsltSourceLine - 1);
+        await vscode.window.showTextDocument(vscode.Uri.file(issue.xsltSourceFile), {
+            viewColumn: outputEditor.viewColumn === vscode.ViewColumn.One ? vscode.ViewColumn.Two : vscode.ViewColumn.One,
+            selection: new vscode.Range(xsltLine, 0, xsltLine, 0),
+            preserveFocus: true,
+            preview: true,
+        });
+    }
+}
@@ -0,0 +1,99 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { getLastValidationReport, getLastValidationUri } from '../validation/diagnosticsReporter';
+import { IssueSeverity } from '../validation/types';
+
+function formatDuration(ms: number | undefined): string | undefined {
+    if (ms === undefined) {
+        return undefined;
+    }
+    return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+function infoItem(label: string, description: string | undefined, icon: string): vscode.TreeItem {
+    const item = new vscode.TreeItem(label, vscode.TreeItemCollapsibleState.None);
+    item.description = description;
+    item.iconPath = new vscode.ThemeIcon(icon);
+    return item;
+}
+
+function layerItem(label: string, passed: boolean, durationMs: number | undefined): vscode.TreeItem {
+    const item = new vscode.TreeItem(label, vscode.TreeItemCollapsibleState.None);
+    item.description = [passed ? 'passed' : 'failed', formatDuration(durationMs)].filter(Boolean).join(' · ');
+    item.iconPath = passed
+        ? new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed'))
+        : new vscode.ThemeIcon('error', new vscode.ThemeColor('testing.iconFailed'));
+    return item;
+}
+
+/** Summary of the most recent validation: document type, each layer's outcome and timing */
+export class LastRunTreeProvider implements vscode.TreeDataProvider<vscode.TreeItem> {
+    private _onDidChangeTreeData = new vscode.EventEmitter<void>();
+    readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    refresh(): void {
+        this._onDidChangeTreeData.fire();
+    }
+
+    getTreeItem(element: vscode.TreeItem): vscode.TreeItem {
+        return element;
+    }
+
+    getChildren(element?: vscode.TreeItem): vscode.TreeItem[] {
+        const report = getLastValidationReport();
+        if (element || !report) {
+            return [];
+        }
+        const { result } = report;
+        const items: vscode.TreeItem[] = [];
+
+        const document = infoItem(
+            result.documentInfo ? `${result.documentInfo.documentType} (${result.documentInfo.syntax.toUpperCase()})` : 'Unknown document',
+            path.basename(report.documentPath),
+            'file-code'
+        );
+        document.tooltip = report.documentPath;
+        const uri = getLastValidationUri();
+        if (uri) {
+            document.command = { command: 'vscode.open', title: 'Open', arguments: [uri] };
+        }
+        items.push(document);
+
+        if (result.documentInfo?.customizationId) {
+            items.push(infoItem('CustomizationID', result.documentInfo.customizationId, 'tag'));
+        }
+        if (report.xsltStylesheet) {
+            items.push(infoItem('Stylesheet', vscode.workspace.asRelativePath(report.xsltStylesheet), 'symbol-misc'));
+        }
+
+        // XSD has no duration when the scope skipped it
+        if (result.xsdDurationMs !== undefined || result.fromCache) {
+            items.push(layerItem('XSD', result.xsdPassed, result.xsdDurationMs));
+        }
+        for (const ruleset of result.rulesetResults) {
+            const item = layerItem(ruleset.label, ruleset.passed, ruleset.durationMs);
+            if (ruleset.activePatterns) {
+                const patterns = ruleset.activePatterns;
+                const fired = patterns.filter(p => p.firedRules > 0).length;
+                item.description += ` · ${fired}/${patterns.length} patterns fired`;
+                item.tooltip = patterns
+                    .map(p => `${p.id ?? p.name ?? '(unnamed)'}: ${p.firedRules} rule(s) fired`)
+                    .join('\n');
+            }
+            items.push(item);
+        }
+
+        const errors = result.issues.filter(i => i.severity === IssueSeverity.Error).length;
+        const warnings = result.issues.filter(i => i.severity === IssueSeverity.Warning).length;
+        items.push(infoItem('Issues', `${errors} error(s), ${warnings} warning(s)`, 'list-flat'));
+
+        const total = formatDuration(result.durationMs);
+        items.push(infoItem(
+            'Total time',
+            result.fromCache ? `${total ?? ''} (cached)`.trim() : total,
+            'watch'
+        ));
+        items.push(infoItem('Finished', new Date(report.generatedAt).toLocaleTimeString(), 'history'));
+        return items;
+    }
+}
@@ -0,0 +1,77 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { findConfigFile, loadConfig, ProjectProfile, resolveProfileSamples } from '../config/projectConfig';
+
+/** A profile row; commands started from its inline actions receive it as argument */
+export class ProfileTreeItem extends vscode.TreeItem {
+    constructor(readonly profileName: string, readonly profile: ProjectProfile, readonly configDir: string) {
+        super(profileName, vscode.TreeItemCollapsibleState.Collapsed);
+        this.contextValue = 'profile';
+        this.iconPath = new vscode.ThemeIcon(profile.enabled === false ? 'circle-slash' : 'symbol-namespace');
+        this.description = profile.validationScope || 'full';
+        this.tooltip = `${profile.xsltStylesheet}${profile.enabled === false ? ' (disabled)' : ''}`;
+    }
+}
+
+function fileItem(filePath: string, configDir: string, icon: string, label?: string): vscode.TreeItem {
+    const item = new vscode.TreeItem(label ?? path.relative(configDir, filePath), vscode.TreeItemCollapsibleState.None);
+    item.resourceUri = vscode.Uri.file(filePath);
+    item.iconPath = new vscode.ThemeIcon(icon);
+    item.command = { command: 'vscode.open', title: 'Open', arguments: [item.resourceUri] };
+    return item;
+}
+
+/** Profiles of .ublproject.json, each with its stylesheet and resolved sample files */
+export class ProfilesTreeProvider implements vscode.TreeDataProvider<vscode.TreeItem> {
+    private _onDidChangeTreeData = new vscode.EventEmitter<void>();
+    readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    refresh(): void {
+        this._onDidChangeTreeData.fire();
+    }
+
+    getTreeItem(element: vscode.TreeItem): vscode.TreeItem {
+        return element;
+    }
+
+    async getChildren(element?: vscode.TreeItem): Promise<vscode.TreeItem[]> {
+        if (element instanceof ProfileTreeItem) {
+            return this.profileChildren(element);
+        }
+        if (element) {
+            return [];
+        }
+
+        const configPath = findConfigFile();
+        if (!configPath) {
+            // The view's welcome content offers to create one
+            return [];
+        }
+        try {
+            const config = loadConfig(configPath);
+            const configDir = path.dirname(configPath);
+            return config.profiles.map(profile => new ProfileTreeItem(profile.name, profile, configDir));
+        } catch (error: any) {
+            const item = new vscode.TreeItem(`Invalid ${path.basename(configPath)}: ${error.message}`);
+            item.iconPath = new vscode.ThemeIcon('error');
+            item.command = { command: 'vscode.open', title: 'Open', arguments: [vscode.Uri.file(configPath)] };
+            return [item];
+        }
+    }
+
+    private async profileChildren(element: ProfileTreeItem): Promise<vscode.TreeItem[]> {
+        const { profile, configDir } = element;
+        const stylesheet = path.resolve(configDir, profile.xsltStylesheet);
+        const items = [fileItem(stylesheet, configDir, 'file-code')];
+
+        try {
+            const samples = await resolveProfileSamples(profile, configDir);
+            items.push(...samples.map(sample => fileItem(sample, configDir, 'file')));
+        } catch (error: any) {
+            const item = new vscode.TreeItem(error.message);
+            item.iconPath = new vscode.ThemeIcon('warning');
+            items.push(item);
+        }
+        return items;
+    }
+}
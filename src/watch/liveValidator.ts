@@ -0,0 +1,151 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { validateDocument } from '../pipeline/transformAndValidate';
+import { detectDocumentFromContent } from '../validation/documentDetector';
+import { reportDiagnostics, storeValidationReport } from '../validation/diagnosticsReporter';
+import { getDiagnosticCollection } from '../extension';
+
+export type LiveValidationMode = 'off' | 'onType' | 'onSave';
+
+interface PendingRun {
+    timer: NodeJS.Timeout | null;
+    controller: AbortController | null;
+}
+
+/**
+ * Validates open UBL/CII documents as they are edited or saved. Runs work on
+ * the editor buffer, so unsaved changes are validated too. A new edit cancels
+ * the pending run for that document and aborts its Java processes.
+ */
+export class LiveValidator implements vscode.Disposable {
+    private mode: LiveValidationMode = 'off';
+    private debounceMs = 800;
+    private runs = new Map<string, PendingRun>();
+    // Documents this validator put diagnostics on, so it only clears its own
+    private validated = new Set<string>();
+    private disposables: vscode.Disposable[] = [];
+    private artifactsPath: string;
+
+    constructor(private readonly context: vscode.ExtensionContext) {
+        this.artifactsPath = path.join(context.extensionPath, 'validation-artifacts');
+        this.disposables.push(
+            vscode.workspace.onDidChangeTextDocument(e => {
+                if (this.mode === 'onType' && e.contentChanges.length > 0) {
+                    this.schedule(e.document, this.debounceMs);
+                }
+            }),
+            vscode.workspace.onDidSaveTextDocument(doc => {
+                if (this.mode !== 'off') {
+                    this.schedule(doc, 0);
+                }
+            }),
+            vscode.workspace.onDidOpenTextDocument(doc => {
+                if (this.mode !== 'off') {
+                    this.schedule(doc, 0);
+                }
+            }),
+            vscode.workspace.onDidCloseTextDocument(doc => {
+                const key = doc.uri.toString();
+                this.cancel(key);
+                if (this.validated.delete(key)) {
+                    getDiagnosticCollection().delete(doc.uri);
+                }
+            })
+        );
+    }
+
+    configure(mode: LiveValidationMode, debounceMs: number): void {
+        const wasOff = this.mode === 'off';
+        this.mode = mode;
+        this.debounceMs = Math.max(0, debounceMs);
+
+        if (mode === 'off') {
+            for (const key of [...this.runs.keys()]) {
+                this.cancel(key);
+            }
+        } else if (wasOff) {
+            // Catch up on documents that were opened while live validation was off
+            for (const doc of vscode.workspace.textDocuments) {
+                this.schedule(doc, 0);
+            }
+        }
+    }
+
+    dispose(): void {
+        for (const key of [...this.runs.keys()]) {
+            this.cancel(key);
+        }
+        for (const disposable of this.disposables) {
+            disposable.dispose();
+        }
+    }
+
+    private schedule(doc: vscode.TextDocument, delay: number): void {
+        // Only editor buffers: skip git views, diff sides and generated outputs
+        if (doc.languageId !== 'xml' || (doc.uri.scheme !== 'file' && doc.uri.scheme !== 'untitled')) {
+            return;
+        }
+        const key = doc.uri.toString();
+        this.cancel(key);
+
+        const run: PendingRun = { timer: null, controller: null };
+        run.timer = setTimeout(() => {
+            run.timer = null;
+            this.validate(doc, key, run);
+        }, delay);
+        this.runs.set(key, run);
+    }
+
+    private cancel(key: string): void {
+        const run = this.runs.get(key);
+        if (!run) {
+            return;
+        }
+        if (run.timer) {
+            clearTimeout(run.timer);
+        }
+        run.controller?.abort();
+        this.runs.delete(key);
+    }
+
+    private async validate(doc: vscode.TextDocument, key: string, run: PendingRun): Promise<void> {
+        const content = doc.getText();
+        const docInfo = detectDocumentFromContent(content);
+        if (!docInfo) {
+            // No longer UBL/CII (e.g. root element being retyped): drop stale results
+            if (this.validated.delete(key)) {
+                getDiagnosticCollection().delete(doc.uri);
+            }
+            this.runs.delete(key);
+            return;
+        }
+
+        const controller = new AbortController();
+        run.controller = controller;
+        const version = doc.version;
+
+        try {
+            const result = await validateDocument(content, docInfo, {
+                artifactsPath: this.artifactsPath,
+                extensionPath: this.context.extensionPath,
+                signal: controller.signal,
+                // Layer failures (missing Java, artifacts) surface through the commands; keep typing quiet
+                onError: (msg) => console.error(`Live validation: ${msg}`),
+            });
+            if (controller.signal.aborted || doc.isClosed || doc.version !== version) {
+                return;
+            }
+            reportDiagnostics(getDiagnosticCollection(), doc.uri, result.issues);
+            storeValidationReport(doc.uri, result);
+            this.validated.add(key);
+        } catch (error: any) {
+            if (!controller.signal.aborted) {
+                console.error('Live validation error:', error);
+            }
+        } finally {
+            if (this.runs.get(key) === run) {
+                this.runs.delete(key);
+            }
+        }
+    }
+}
@@ -1,170 +1,461 @@
 import * as path from 'path';
 import * as vscode from 'vscode';
-import { findConfigFile, loadConfig, pickProfile, resolveProfilePaths, ProjectProfile } from '../config/projectConfig';
-import { transformAndValidate, TransformResult } from '../pipeline/transformAndValidate';
-import { reportDiagnostics } from '../validation/diagnosticsReporter';
-import { getDiagnosticCollection } from '../extension';
-import { ValidationScope } from '../validation/types';
+import { findConfigFile, loadConfig, pickProfiles, resolveProfileSamples } from '../config/projectConfig';
+import { PipelineOptions, transformAndValidate } from '../pipeline/transformAndValidate';
+import { reportTracedDiagnostics, storeValidationReport } from '../validation/diagnosticsReporter';
+import { getDiagnosticCollection, setLastTransformContext } from '../extension';
+import { IssueSeverity, ValidationScope } from '../validation/types';
+import { collectStylesheetDependencies } from '../analysis/stylesheetDependencies';
+import { SampleOutputContentProvider, SAMPLE_OUTPUT_SCHEME } from '../commands/transformSamplesCommand';
+import { MappingPanel, mappingRunFromResult } from '../webview/mappingPanel';
 
 const DEBOUNCE_MS = 500;
 
+/** Context key for menus that only apply while watch mode is on */
+const WATCHING_CONTEXT_KEY = 'xslt-transformer.watching';
+
+type TargetStatus = 'pending' | 'running' | 'passed' | 'failed' | 'error' | 'not-validated';
+
+/** One watched mapping: a sample of a profile from .ublproject.json, or a picked file pair */
+interface WatchTarget {
+    name: string;
+    /** Profile the sample belongs to (the stylesheet name for a picked pair) */
+    profile: string;
+    sourceXml: string;
+    xsltStylesheet: string;
+    validationScope: ValidationScope;
+    status: TargetStatus;
+    errors: number;
+    warnings: number;
+    /** File whose change caused the last run, null for the initial run */
+    trigger: string | null;
+    message?: string;
+}
+
+interface WatchedFile {
+    watcher: vscode.FileSystemWatcher;
+    /** Targets that depend on the file; shared modules have several */
+    targets: Set<WatchTarget>;
+}
+
+const STATUS_ICONS: Record<TargetStatus, string> = {
+    'pending': '$(clock)',
+    'running': '$(sync~spin)',
+    'passed': '$(check)',
+    'failed': '$(alert)',
+    'error': '$(error)',
+    'not-validated': '$(eye)',
+};
+
 export class WatchManager {
-    private watcher: vscode.FileSystemWatcher | null = null;
+    private active = false;
+    private targets: WatchTarget[] = [];
+    // One watcher per dependency, keyed by absolute path
+    private watchers = new Map<string, WatchedFile>();
     private statusBarItem: vscode.StatusBarItem;
     private debounceTimer: NodeJS.Timeout | null = null;
     private running = false;
+    // Targets to run once the debounce fires (or the current run finishes)
+    private queued = new Map<WatchTarget, string | null>();
     private extensionContext: vscode.ExtensionContext;
-
-    // Resolved watch config
-    private sourceXml = '';
-    private xsltStylesheet = '';
-    private validationScope: ValidationScope = 'full';
     private artifactsPath = '';
 
-    constructor(context: vscode.ExtensionContext) {
+    // Show an idle "start watch" entry when the workspace has a project config
+    private hasProjectConfig = false;
+
+    constructor(context: vscode.ExtensionContext, private readonly outputProvider: SampleOutputContentProvider) {
         this.extensionContext = context;
         this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
-        this.statusBarItem.command = 'xslt-transformer.stopWatch';
         context.subscriptions.push(this.statusBarItem);
         this.artifactsPath = path.join(context.extensionPath, 'validation-artifacts');
     }
 
     get isWatching(): boolean {
-        return this.watcher !== null;
+        return this.active;
+    }
+
+    setProjectConfigPresent(present: boolean): void {
+        this.hasProjectConfig = present;
+        if (!this.active) {
+            this.showIdleStatus();
+        }
+    }
+
+    private showIdleStatus(): void {
+        if (!this.hasProjectConfig) {
+            this.statusBarItem.hide();
+            return;
+        }
+        this.statusBarItem.text = '$(eye-closed) XSLT Watch';
+        this.statusBarItem.tooltip = 'Click to start watch mode for .ublproject.json profiles';
+        this.statusBarItem.command = 'xslt-transformer.startWatch';
+        this.statusBarItem.show();
     }
 
-    async start(): Promise<void> {
-        if (this.watcher) {
+    /** Starts watching; profileName skips the profile picker (used by the Profiles view) */
+    async start(profileName?: string): Promise<void> {
+        if (this.active) {
             vscode.window.showInformationMessage('Watch mode is already active.');
             return;
         }
 
-        // Resolve config
+        const targets = await this.pickTargets(profileName);
+        if (!targets) {
+            return;
+        }
+
+        this.targets = targets;
+        this.active = true;
+        this.updateWatchedFiles();
+
+        this.statusBarItem.command = 'xslt-transformer.showWatchResults';
+        this.statusBarItem.show();
+        vscode.commands.executeCommand('setContext', WATCHING_CONTEXT_KEY, true);
+
+        const what = targets.length === 1 ? `"${targets[0].name}"` : this.countLabel();
+        vscode.window.showInformationMessage(
+            `XSLT Watch mode started for ${what} on ${this.watchers.size} file(s). ` +
+            `Save a stylesheet, one of its modules or a source XML to re-run.`
+        );
+
+        // Run everything once immediately
+        for (const target of targets) {
+            this.queued.set(target, null);
+        }
+        await this.runQueued();
+    }
+
+    /** Enabled profiles from .ublproject.json (all or a chosen subset), or a picked file pair */
+    private async pickTargets(profileName?: string): Promise<WatchTarget[] | undefined> {
+        const newTarget = (name: string, profile: string, sourceXml: string, xsltStylesheet: string, validationScope: ValidationScope): WatchTarget => ({
+            name, profile, sourceXml, xsltStylesheet, validationScope, status: 'pending', errors: 0, warnings: 0, trigger: null,
+        });
+
         const configPath = findConfigFile();
         if (configPath) {
             try {
                 const config = loadConfig(configPath);
-                const profile = await pickProfile(config);
-                if (!profile) {
-                    return;
+                const profiles = await pickProfiles(config, profileName);
+                if (!profiles) {
+                    return undefined;
                 }
                 const configDir = path.dirname(configPath);
-                const resolved = resolveProfilePaths(profile, configDir);
-                this.sourceXml = resolved.sourceXml;
-                this.xsltStylesheet = resolved.xsltStylesheet;
-                this.validationScope = profile.validationScope || 'full';
+                const targets: WatchTarget[] = [];
+                for (const profile of profiles) {
+                    // Every sample of a profile is watched, each as its own target
+                    const samples = await resolveProfileSamples(profile, configDir);
+                    const xsltStylesheet = path.resolve(configDir, profile.xsltStylesheet);
+                    for (const sample of samples) {
+                        const name = samples.length > 1 ? `${profile.name} (${path.relative(configDir, sample)})` : profile.name;
+                        targets.push(newTarget(name, profile.name, sample, xsltStylesheet, profile.validationScope || 'full'));
+                    }
+                }
+                return targets;
             } catch (error: any) {
                 vscode.window.showErrorMessage(`Error loading config: ${error.message}`);
-                return;
-            }
-        } else {
-            // Fall back to file pickers
-            const xmlFiles = await vscode.window.showOpenDialog({
-                canSelectMany: false,
-                openLabel: 'Select XML Input File',
-                filters: { 'XML Files': ['xml'], 'All Files': ['*'] },
-            });
-            if (!xmlFiles || xmlFiles.length === 0) {
-                return;
-            }
-            this.sourceXml = xmlFiles[0].fsPath;
-
-            const xslFiles = await vscode.window.showOpenDialog({
-                canSelectMany: false,
-                openLabel: 'Select XSL/XSLT Stylesheet',
-                filters: { 'XSL Files': ['xsl', 'xslt'], 'All Files': ['*'] },
-            });
-            if (!xslFiles || xslFiles.length === 0) {
-                return;
+                return undefined;
             }
-            this.xsltStylesheet = xslFiles[0].fsPath;
         }
 
-        // Watch XSLT files
-        this.watcher = vscode.workspace.createFileSystemWatcher('**/*.{xsl,xslt}');
-        this.watcher.onDidChange(() => this.onFileChanged());
-        this.watcher.onDidCreate(() => this.onFileChanged());
-
-        this.statusBarItem.text = '$(eye) XSLT Watch: Active';
-        this.statusBarItem.tooltip = 'Click to stop watch mode';
-        this.statusBarItem.show();
+        // Fall back to file pickers
+        const xmlFiles = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            openLabel: 'Select XML Input File',
+            filters: { 'XML Files': ['xml'], 'All Files': ['*'] },
+        });
+        if (!xmlFiles || xmlFiles.length === 0) {
+            return undefined;
+        }
 
-        vscode.window.showInformationMessage('XSLT Watch mode started. Save an XSLT file to trigger transform + validate.');
+        const xslFiles = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            openLabel: 'Select XSL/XSLT Stylesheet',
+            filters: { 'XSL Files': ['xsl', 'xslt'], 'All Files': ['*'] },
+        });
+        if (!xslFiles || xslFiles.length === 0) {
+            return undefined;
+        }
 
-        // Run once immediately
-        await this.runPipeline();
+        const xslt = xslFiles[0].fsPath;
+        return [newTarget(path.basename(xslt), path.basename(xslt), xmlFiles[0].fsPath, xslt, 'full')];
     }
 
     stop(): void {
+        if (!this.active) {
+            return;
+        }
+        this.stopWatching();
+        vscode.window.showInformationMessage('XSLT Watch mode stopped.');
+    }
+
+    dispose(): void {
+        if (this.active) {
+            this.stopWatching();
+        }
+        this.statusBarItem.dispose();
+    }
+
+    private stopWatching(): void {
         if (this.debounceTimer) {
             clearTimeout(this.debounceTimer);
             this.debounceTimer = null;
         }
-        if (this.watcher) {
-            this.watcher.dispose();
-            this.watcher = null;
+        for (const { watcher } of this.watchers.values()) {
+            watcher.dispose();
         }
-        this.statusBarItem.hide();
-        vscode.window.showInformationMessage('XSLT Watch mode stopped.');
+        this.watchers.clear();
+        this.queued.clear();
+        this.targets = [];
+        this.active = false;
+        vscode.commands.executeCommand('setContext', WATCHING_CONTEXT_KEY, false);
+        this.showIdleStatus();
     }
 
-    dispose(): void {
-        this.stop();
-        this.statusBarItem.dispose();
+    /** Per-profile breakdown of the last runs; picking a profile opens its output */
+    async showResults(): Promise<void> {
+        if (!this.active) {
+            vscode.window.showInformationMessage('Watch mode is not active.');
+            return;
+        }
+
+        type Item = vscode.QuickPickItem & { target?: WatchTarget };
+        const items: Item[] = this.targets.map(target => ({
+            label: `${STATUS_ICONS[target.status]} ${target.name}`,
+            description: this.describeResult(target),
+            detail: `${this.describeFile(target.sourceXml)} -> ${this.describeFile(target.xsltStylesheet)}` +
+                (target.trigger ? ` · last run after ${this.describeFile(target.trigger)} changed` : ''),
+            target,
+        }));
+        items.push({ label: '$(debug-stop) Stop watch mode' });
+
+        const picked = await vscode.window.showQuickPick(items, { placeHolder: this.summary() });
+        if (!picked) {
+            return;
+        }
+        if (!picked.target) {
+            this.stop();
+            return;
+        }
+        const document = await vscode.workspace.openTextDocument(this.outputUri(picked.target));
+        await vscode.window.showTextDocument(document, { preview: true });
+    }
+
+    /**
+     * Watches exactly the files the targets depend on: each stylesheet, its
+     * include/import modules, documents it loads with document(), and the
+     * source XML. Called again after each run since modules can be added.
+     */
+    private updateWatchedFiles(): void {
+        const wanted = new Map<string, Set<WatchTarget>>();
+        const add = (file: string, target: WatchTarget) => {
+            const targets = wanted.get(file) ?? new Set<WatchTarget>();
+            targets.add(target);
+            wanted.set(file, targets);
+        };
+        for (const target of this.targets) {
+            const dependencies = collectStylesheetDependencies(target.xsltStylesheet);
+            for (const file of [...dependencies.stylesheets, ...dependencies.documents]) {
+                add(file, target);
+            }
+            add(path.resolve(target.sourceXml), target);
+        }
+
+        for (const [file, watched] of this.watchers) {
+            if (!wanted.has(file)) {
+                watched.watcher.dispose();
+                this.watchers.delete(file);
+            }
+        }
+        for (const [file, targets] of wanted) {
+            const existing = this.watchers.get(file);
+            if (existing) {
+                existing.targets = targets;
+                continue;
+            }
+            const watcher = vscode.workspace.createFileSystemWatcher(
+                new vscode.RelativePattern(path.dirname(file), path.basename(file))
+            );
+            watcher.onDidChange(() => this.onFileChanged(file));
+            watcher.onDidCreate(() => this.onFileChanged(file));
+            this.watchers.set(file, { watcher, targets });
+        }
     }
 
-    private onFileChanged(): void {
+    private onFileChanged(file: string): void {
+        const watched = this.watchers.get(file);
+        if (!watched) {
+            return;
+        }
+        for (const target of watched.targets) {
+            this.queued.set(target, file);
+            target.status = 'pending';
+        }
+        this.updateStatusBar();
+
         if (this.debounceTimer) {
             clearTimeout(this.debounceTimer);
         }
         this.debounceTimer = setTimeout(() => {
-            this.runPipeline();
+            this.debounceTimer = null;
+            this.runQueued();
         }, DEBOUNCE_MS);
     }
 
-    private async runPipeline(): Promise<void> {
+    private describeFile(file: string): string {
+        return vscode.workspace.asRelativePath(file);
+    }
+
+    private describeResult(target: WatchTarget): string {
+        switch (target.status) {
+            case 'passed':
+                // Warnings don't fail a target but are still worth seeing
+                return target.warnings > 0 ? `passed, ${target.warnings}W` : 'passed';
+            case 'failed':
+                return `${target.errors}E ${target.warnings}W`;
+            case 'error':
+                return target.message ?? 'error';
+            case 'not-validated':
+                return 'output is not UBL or CII';
+            default:
+                return target.status;
+        }
+    }
+
+    private summary(): string {
+        const count = (...statuses: TargetStatus[]) => this.targets.filter(t => statuses.includes(t.status)).length;
+        const ok = count('passed', 'not-validated');
+        const bad = count('failed', 'error');
+        const busy = count('running', 'pending');
+        const warnings = this.targets.filter(t => t.status === 'passed').reduce((sum, t) => sum + t.warnings, 0);
+        return `${this.countLabel()}: ${ok}✓ ${bad}✗` + (warnings > 0 ? ` ${warnings}W` : '') + (busy > 0 ? ` ${busy}…` : '');
+    }
+
+    /** "3 profiles", or "5 samples" when a profile contributes several */
+    private countLabel(): string {
+        const profiles = new Set(this.targets.map(t => t.profile)).size;
+        return `${this.targets.length} ${profiles === this.targets.length ? 'profiles' : 'samples'}`;
+    }
+
+    private updateStatusBar(): void {
+        if (!this.active) {
+            return;
+        }
+        const running = this.targets.some(t => t.status === 'running');
+        const triggers = [...new Set(this.targets.map(t => t.trigger).filter((t): t is string => t !== null))];
+        const triggerLabel = triggers.length === 1 ? ` (${path.basename(triggers[0])} changed)` : '';
+
+        if (this.targets.length === 1) {
+            const [target] = this.targets;
+            switch (target.status) {
+                case 'passed':
+                    this.statusBarItem.text = `$(check) XSLT Watch: Passed${target.warnings > 0 ? ` (${target.warnings}W)` : ''}${triggerLabel}`;
+                    break;
+                case 'failed':
+                    this.statusBarItem.text = `$(alert) XSLT Watch: ${target.errors}E ${target.warnings}W${triggerLabel}`;
+                    break;
+                case 'error':
+                    this.statusBarItem.text = `$(error) XSLT Watch: Error${triggerLabel}`;
+                    break;
+                case 'not-validated':
+                    this.statusBarItem.text = `$(eye) XSLT Watch: Active (non-UBL)${triggerLabel}`;
+                    break;
+                default:
+                    this.statusBarItem.text = `$(sync~spin) XSLT Watch: Running...${triggerLabel}`;
+            }
+        } else {
+            const icon = running ? '$(sync~spin)'
+                : this.targets.some(t => t.status === 'failed' || t.status === 'error') ? '$(alert)' : '$(check)';
+            this.statusBarItem.text = `${icon} XSLT Watch: ${this.summary()}`;
+        }
+        this.statusBarItem.tooltip = (triggers.length > 0
+            ? `Last run triggered by ${triggers.map(t => this.describeFile(t)).join(', ')}. `
+            : '') + 'Click for per-profile results or to stop watch mode';
+    }
+
+    private outputUri(target: WatchTarget): vscode.Uri {
+        return vscode.Uri.from({
+            scheme: SAMPLE_OUTPUT_SCHEME,
+            path: `/watch/${target.name}/${path.basename(target.sourceXml)}.out.xml`,
+        });
+    }
+
+    /** Runs queued targets one after another; changes arriving meanwhile are picked up afterwards */
+    private async runQueued(): Promise<void> {
         if (this.running) {
             return;
         }
         this.running = true;
-        this.statusBarItem.text = '$(sync~spin) XSLT Watch: Running...';
+        try {
+            while (this.active && this.queued.size > 0) {
+                const [target, trigger] = this.queued.entries().next().value as [WatchTarget, string | null];
+                this.queued.delete(target);
+                await this.runTarget(target, trigger);
+            }
+        } finally {
+            this.running = false;
+        }
+        if (this.active) {
+            // Includes may have been added or removed by the edit
+            this.updateWatchedFiles();
+        }
+    }
+
+    private async runTarget(target: WatchTarget, trigger: string | null): Promise<void> {
+        target.status = 'running';
+        target.trigger = trigger;
+        target.message = undefined;
+        this.updateStatusBar();
+
+        const options: PipelineOptions = {
+            sourceXml: target.sourceXml,
+            xsltStylesheet: target.xsltStylesheet,
+            artifactsPath: this.artifactsPath,
+            extensionPath: this.extensionContext.extensionPath,
+            validationScope: target.validationScope,
+            enableTracing: true,
+            onError: (msg) => vscode.window.showErrorMessage(`[${target.name}] ${msg}`),
+        };
 
         try {
-            const result = await transformAndValidate({
-                sourceXml: this.sourceXml,
-                xsltStylesheet: this.xsltStylesheet,
-                artifactsPath: this.artifactsPath,
-                extensionPath: this.extensionContext.extensionPath,
-                validationScope: this.validationScope,
-            });
+            const result = await transformAndValidate(options);
+
+            if (!this.active) {
+                // Stopped while the pipeline ran
+                return;
+            }
 
             const diagnosticCollection = getDiagnosticCollection();
+            const outputUri = this.outputUri(target);
+            this.outputProvider.update(outputUri, result.output);
+            setLastTransformContext(options, result.output, outputUri);
+            MappingPanel.updateIfOpen(mappingRunFromResult(target, result));
 
-            if (result.isUbl && result.validationResult) {
-                // Create a URI for the XSLT file to attach diagnostics
-                const xsltUri = vscode.Uri.file(this.xsltStylesheet);
-                reportDiagnostics(diagnosticCollection, xsltUri, result.validationResult.issues);
-
-                const errorCount = result.validationResult.issues.filter(
-                    i => i.severity === vscode.DiagnosticSeverity.Error
-                ).length;
-                const warnCount = result.validationResult.issues.filter(
-                    i => i.severity === vscode.DiagnosticSeverity.Warning
-                ).length;
-
-                if (errorCount === 0 && warnCount === 0) {
-                    this.statusBarItem.text = '$(check) XSLT Watch: Passed';
-                } else {
-                    this.statusBarItem.text = `$(alert) XSLT Watch: ${errorCount}E ${warnCount}W`;
-                }
+            if (result.isValidated && result.validationResult) {
+                // Diagnostics go on the output, each linked back to the XSLT line that produced it
+                reportTracedDiagnostics(diagnosticCollection, outputUri, result.tracedIssues ?? []);
+                storeValidationReport(outputUri, result.validationResult, result.tracedIssues, {
+                    sourceXml: target.sourceXml,
+                    xsltStylesheet: target.xsltStylesheet,
+                });
+
+                const { issues, xsdPassed, rulesetResults } = result.validationResult;
+                target.errors = issues.filter(i => i.severity === IssueSeverity.Error).length;
+                target.warnings = issues.filter(i => i.severity === IssueSeverity.Warning).length;
+                // A layer that failed to run (no Java, missing artifact) has no issues but didn't pass
+                const layersPassed = xsdPassed && rulesetResults.every(r => r.passed);
+                target.status = layersPassed && target.errors === 0 ? 'passed' : 'failed';
             } else {
-                this.statusBarItem.text = '$(eye) XSLT Watch: Active (non-UBL)';
+                diagnosticCollection.delete(outputUri);
+                target.status = 'not-validated';
             }
         } catch (error: any) {
-            this.statusBarItem.text = '$(error) XSLT Watch: Error';
-            vscode.window.showErrorMessage(`Watch pipeline error: ${error.message}`);
-        } finally {
-            this.running = false;
+            if (!this.active) {
+                return;
+            }
+            target.status = 'error';
+            target.message = error.message;
+            vscode.window.showErrorMessage(`Watch pipeline error (${target.name}): ${error.message}`);
         }
+        this.updateStatusBar();
     }
 }
@@ -1,29 +1,80 @@
+import * as fs from 'fs';
+import * as path from 'path';
 import * as vscode from 'vscode';
+import { TransformResult } from '../pipeline/transformAndValidate';
+import { TracedIssue } from '../tracing/errorTraceMapper';
 import { TraceEntry } from '../tracing/xsltTracer';
-import { ValidationIssue } from '../validation/types';
+import { IssueSeverity } from '../validation/types';
 
-interface MappingData {
+/** A traced run of one source/stylesheet pair, as shown by the panel */
+export interface MappingRun {
     sourceXml: string;
-    outputXml: string;
+    xsltStylesheet: string;
+    output: string;
     traceEntries: TraceEntry[];
-    validationIssues: ValidationIssue[];
+    issues: TracedIssue[];
 }
 
+export function mappingRunFromResult(
+    paths: { sourceXml: string; xsltStylesheet: string },
+    result: TransformResult
+): MappingRun {
+    return {
+        sourceXml: paths.sourceXml,
+        xsltStylesheet: paths.xsltStylesheet,
+        output: result.output,
+        traceEntries: result.traceEntries ?? [],
+        issues: result.tracedIssues ?? result.validationResult?.issues ?? [],
+    };
+}
+
+type PanelMessage =
+    | { type: 'ready' }
+    | { type: 'revealXslt'; file: string; line: number; column?: number }
+    | { type: 'revealSource'; line: number };
+
+interface StylesheetModule {
+    file: string;
+    name: string;
+    text: string;
+}
+
+/** Marker for one line of a pane: the worst severity on it and the messages for the hover */
+interface GutterMarker {
+    severity: 'error' | 'warning' | 'info';
+    messages: string[];
+}
+
+/**
+ * Source XML, stylesheet and output side by side. Clicking an output line
+ * shows the input node and XSLT instruction behind it and reveals that
+ * instruction in an editor; selecting lines in a stylesheet editor marks
+ * all output they produced. Validation issues are gutter markers on the
+ * output and, for traced issues, on the stylesheet line.
+ *
+ * The page is built once; runs are sent to it as messages so a refresh
+ * (e.g. a watch-mode re-run) keeps the scroll positions.
+ */
 export class MappingPanel {
     public static readonly viewType = 'xsltMapping';
     private static currentPanel: MappingPanel | undefined;
 
     private readonly panel: vscode.WebviewPanel;
     private disposables: vscode.Disposable[] = [];
+    private run: MappingRun;
+    /** Stylesheet modules of the run, keyed by resolved path */
+    private modules = new Map<string, StylesheetModule>();
+    /** Last line revealed from the panel, so the selection that causes isn't echoed back */
+    private revealed: { file: string; line: number } | undefined;
 
     static createOrShow(
         extensionUri: vscode.Uri,
-        data: MappingData
+        run: MappingRun
     ): MappingPanel {
         const column = vscode.ViewColumn.Beside;
 
         if (MappingPanel.currentPanel) {
-            MappingPanel.currentPanel.update(data);
+            MappingPanel.currentPanel.update(run);
             MappingPanel.currentPanel.panel.reveal(column);
             return MappingPanel.currentPanel;
         }
@@ -38,19 +89,36 @@ export class MappingPanel {
             }
         );
 
-        MappingPanel.currentPanel = new MappingPanel(panel, data);
+        MappingPanel.currentPanel = new MappingPanel(panel, run);
         return MappingPanel.currentPanel;
     }
 
-    private constructor(panel: vscode.WebviewPanel, data: MappingData) {
+    /** Refreshes the open panel, if any, when the run is for the pair it shows */
+    static updateIfOpen(run: MappingRun): void {
+        const current = MappingPanel.currentPanel;
+        if (current
+            && path.resolve(current.run.sourceXml) === path.resolve(run.sourceXml)
+            && path.resolve(current.run.xsltStylesheet) === path.resolve(run.xsltStylesheet)) {
+            current.update(run);
+        }
+    }
+
+    private constructor(panel: vscode.WebviewPanel, run: MappingRun) {
         this.panel = panel;
-        this.update(data);
+        this.run = run;
+        this.panel.webview.html = this.getHtml();
+        this.update(run);
 
+        this.panel.webview.onDidReceiveMessage((message: PanelMessage) => this.onMessage(message), null, this.disposables);
+        vscode.window.onDidChangeTextEditorSelection(e => this.onSelectionChanged(e), null, this.disposables);
         this.panel.onDidDispose(() => this.dispose(), null, this.disposables);
     }
 
-    update(data: MappingData): void {
-        this.panel.webview.html = this.getHtml(data);
+    update(run: MappingRun): void {
+        this.run = run;
+        this.modules = loadModules(run);
+        this.panel.title = `Mapping: ${path.basename(run.sourceXml)} → ${path.basename(run.xsltStylesheet)}`;
+        this.postRender();
     }
 
     dispose(): void {
@@ -62,40 +130,105 @@ export class MappingPanel {
         this.disposables = [];
     }
 
-    private getHtml(data: MappingData): string {
-        const sourceLines = escapeHtml(data.sourceXml).split(/\r?\n/);
-        const outputLines = escapeHtml(data.outputXml).split(/\r?\n/);
+    private postRender(): void {
+        const { run } = this;
+        let sourceText = '';
+        try {
+            sourceText = fs.readFileSync(run.sourceXml, 'utf8');
+        } catch {
+            // Deleted since the run; the other panes are still useful
+        }
 
-        // Build error line set for highlighting
-        const errorLines = new Set<number>();
-        for (const issue of data.validationIssues) {
-            if (issue.severity === 0) { // Error
-                errorLines.add(issue.line);
+        const outputMarkers: Record<number, GutterMarker> = {};
+        const stylesheetMarkers: Record<string, Record<number, GutterMarker>> = {};
+        for (const issue of run.issues) {
+            const label = issue.ruleId ? `[${issue.ruleId}] ${issue.message}` : issue.message;
+            if (issue.line > 0) {
+                addMarker(outputMarkers, issue.line, issue.severity, label);
+            }
+            if (issue.xsltSourceFile && issue.xsltSourceLine) {
+                const file = path.resolve(issue.xsltSourceFile);
+                addMarker(stylesheetMarkers[file] ??= {}, issue.xsltSourceLine, issue.severity, `Line ${issue.line} of the output: ${label}`);
             }
         }
 
-        // Build mapping connections from trace entries
-        const connections = data.traceEntries.map(entry => ({
-            outputLine: entry.outputLine,
-            sourceLine: entry.sourceLine,
-            pattern: entry.elementName,
-        }));
+        this.panel.webview.postMessage({
+            type: 'render',
+            source: { name: path.basename(run.sourceXml), text: sourceText },
+            output: { text: run.output, markers: outputMarkers },
+            modules: [...this.modules.values()].map(m => ({ ...m, markers: stylesheetMarkers[m.file] ?? {} })),
+            entries: run.traceEntries.map(e => ({
+                outputLine: e.outputLine,
+                file: path.resolve(e.sourceFile),
+                line: e.sourceLine,
+                column: e.sourceColumn,
+                element: e.elementName,
+                inputLine: e.inputLine,
+            })),
+        });
+    }
+
+    private async onMessage(message: PanelMessage): Promise<void> {
+        switch (message.type) {
+            case 'ready':
+                this.postRender();
+                break;
+            case 'revealXslt': {
+                this.revealed = { file: path.resolve(message.file), line: message.line };
+                const position = new vscode.Position(Math.max(0, message.line - 1), Math.max(0, (message.column ?? 1) - 1));
+                await vscode.window.showTextDocument(vscode.Uri.file(message.file), {
+                    viewColumn: vscode.ViewColumn.One,
+                    selection: new vscode.Range(position, position),
+                    preserveFocus: true,
+                    preview: true,
+                });
+                break;
+            }
+            case 'revealSource': {
+                const position = new vscode.Position(Math.max(0, message.line - 1), 0);
+                await vscode.window.showTextDocument(vscode.Uri.file(this.run.sourceXml), {
+                    viewColumn: vscode.ViewColumn.One,
+                    selection: new vscode.Range(position, position),
+                    preserveFocus: true,
+                    preview: true,
+                });
+                break;
+            }
+        }
+    }
 
-        const sourceHtml = sourceLines.map((line, i) => {
-            const lineNum = i + 1;
-            return `<div class="line" data-line="${lineNum}"><span class="line-num">${lineNum}</span>${line || '&nbsp;'}</div>`;
-        }).join('\n');
+    /** Selection in one of the run's stylesheet modules: mark the output its lines produced */
+    private onSelectionChanged(event: vscode.TextEditorSelectionChangeEvent): void {
+        const document = event.textEditor.document;
+        if (document.uri.scheme !== 'file') {
+            return;
+        }
+        const file = path.resolve(document.uri.fsPath);
+        if (!this.modules.has(file)) {
+            return;
+        }
+        const selection = event.selections[0];
+        const revealed = this.revealed;
+        this.revealed = undefined;
+        if (revealed && revealed.file === file && selection.isEmpty && selection.start.line + 1 === revealed.line) {
+            return;
+        }
+        this.panel.webview.postMessage({
+            type: 'stylesheetSelection',
+            file,
+            startLine: selection.start.line + 1,
+            endLine: selection.end.line + 1,
+        });
+    }
 
-        const outputHtml = outputLines.map((line, i) => {
-            const lineNum = i + 1;
-            const errorClass = errorLines.has(lineNum) ? ' error-line' : '';
-            return `<div class="line${errorClass}" data-line="${lineNum}"><span class="line-num">${lineNum}</span>${line || '&nbsp;'}</div>`;
-        }).join('\n');
+    private getHtml(): string {
+        const nonce = createNonce();
 
         return `<!DOCTYPE html>
 <html lang="en">
 <head>
 <meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
 <meta name="viewport" content="width=device-width, initial-scale=1.0">
 <style>
 * { margin: 0; padding: 0; box-sizing: border-box; }
@@ -104,17 +237,20 @@ body {
     font-size: var(--vscode-editor-font-size, 13px);
     background: var(--vscode-editor-background);
     color: var(--vscode-editor-foreground);
-    display: flex;
     height: 100vh;
 }
+.container { display: flex; width: 100%; height: 100%; }
 .pane {
     flex: 1;
+    min-width: 0;
     overflow: auto;
-    padding: 8px;
     border-right: 1px solid var(--vscode-panel-border);
 }
 .pane:last-of-type { border-right: none; }
 .pane-header {
+    display: flex;
+    gap: 8px;
+    align-items: center;
     font-weight: bold;
     padding: 4px 8px;
     background: var(--vscode-titleBar-activeBackground);
@@ -123,22 +259,32 @@ body {
     top: 0;
     z-index: 10;
 }
+.pane-header select {
+    font-family: inherit;
+    font-size: inherit;
+    color: var(--vscode-dropdown-foreground);
+    background: var(--vscode-dropdown-background);
+    border: 1px solid var(--vscode-dropdown-border, transparent);
+}
+.pane-header select.hidden { display: none; }
 .line {
     white-space: pre;
-    padding: 0 4px;
+    padding-right: 4px;
     line-height: 1.5;
     cursor: pointer;
 }
-.line:hover {
-    background: var(--vscode-list-hoverBackground);
-}
-.line.highlight {
-    background: var(--vscode-editor-findMatchHighlightBackground, rgba(255,200,0,0.3));
-}
-.line.error-line {
-    background: rgba(255, 0, 0, 0.15);
-    border-left: 3px solid var(--vscode-editorError-foreground, red);
+.line:hover { background: var(--vscode-list-hoverBackground); }
+.line.highlight { background: var(--vscode-editor-findMatchHighlightBackground, rgba(255,200,0,0.3)); }
+.line.selected { background: var(--vscode-editor-selectionBackground, rgba(0,120,215,0.3)); }
+.gutter {
+    display: inline-block;
+    width: 16px;
+    text-align: center;
+    user-select: none;
 }
+.gutter.error::before { content: '\\25CF'; color: var(--vscode-editorError-foreground, red); }
+.gutter.warning::before { content: '\\25CF'; color: var(--vscode-editorWarning-foreground, orange); }
+.gutter.info::before { content: '\\25CF'; color: var(--vscode-editorInfo-foreground, #3794ff); }
 .line-num {
     display: inline-block;
     width: 40px;
@@ -147,106 +293,242 @@ body {
     color: var(--vscode-editorLineNumber-foreground);
     user-select: none;
 }
-svg.connections {
-    position: absolute;
-    top: 0;
-    left: 0;
-    width: 100%;
-    height: 100%;
-    pointer-events: none;
-    z-index: 5;
-}
-.container { display: flex; width: 100%; height: 100%; position: relative; }
-#svg-overlay {
-    position: fixed;
-    top: 0;
-    left: 50%;
-    transform: translateX(-50%);
-    width: 40px;
-    height: 100%;
-    pointer-events: none;
-    z-index: 20;
-}
-svg line.connection {
-    stroke: var(--vscode-editorLink-activeForeground, #4fc1ff);
-    stroke-width: 1;
-    opacity: 0.4;
-}
-svg line.connection.active {
-    stroke-width: 2;
-    opacity: 1;
-}
 </style>
 </head>
 <body>
 <div class="container">
     <div class="pane" id="source-pane">
-        <div class="pane-header">Source XML</div>
-        <div id="source-content">${sourceHtml}</div>
+        <div class="pane-header"><span id="source-title">Source XML</span></div>
+        <div id="source-content"></div>
+    </div>
+    <div class="pane" id="stylesheet-pane">
+        <div class="pane-header"><span>Stylesheet</span><select id="module"></select></div>
+        <div id="stylesheet-content"></div>
     </div>
-    <svg id="svg-overlay"></svg>
     <div class="pane" id="output-pane">
-        <div class="pane-header">Transform Output</div>
-        <div id="output-content">${outputHtml}</div>
+        <div class="pane-header"><span>Transform Output</span></div>
+        <div id="output-content"></div>
     </div>
 </div>
-<script>
-const connections = ${JSON.stringify(connections)};
-
-// Click handlers for highlighting mapped regions
-document.querySelectorAll('#output-pane .line').forEach(el => {
-    el.addEventListener('click', () => {
-        clearHighlights();
-        const outputLine = parseInt(el.dataset.line);
-        // Find the connection for this output line
-        let best = null;
-        for (const c of connections) {
-            if (c.outputLine <= outputLine) {
-                best = c;
-            }
+<script nonce="${nonce}">
+const vscode = acquireVsCodeApi();
+let run = null;
+let currentModule = null;
+
+const sourceContent = document.getElementById('source-content');
+const stylesheetContent = document.getElementById('stylesheet-content');
+const outputContent = document.getElementById('output-content');
+const moduleSelect = document.getElementById('module');
+
+function escapeHtml(text) {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function renderLines(container, text, markers, titles) {
+    container.innerHTML = text.split(/\\r?\\n/).map((line, i) => {
+        const n = i + 1;
+        const marker = markers && markers[n];
+        const gutter = marker
+            ? '<span class="gutter ' + marker.severity + '" title="' + escapeHtml(marker.messages.join('\\n')) + '"></span>'
+            : '<span class="gutter"></span>';
+        const title = titles && titles.has(n) ? ' title="' + escapeHtml(titles.get(n)) + '"' : '';
+        return '<div class="line" data-line="' + n + '"' + title + '>' + gutter
+            + '<span class="line-num">' + n + '</span>' + (escapeHtml(line) || '&nbsp;') + '</div>';
+    }).join('');
+}
+
+function basename(file) {
+    return file.split(/[\\\\/]/).pop();
+}
+
+function renderModule(file) {
+    const module = run.modules.find(m => m.file === file) || run.modules[0];
+    currentModule = module ? module.file : null;
+    moduleSelect.value = currentModule || '';
+    renderLines(stylesheetContent, module ? module.text : '', module ? module.markers : {});
+}
+
+function render(message) {
+    run = message;
+    document.getElementById('source-title').textContent = 'Source XML: ' + message.source.name;
+    renderLines(sourceContent, message.source.text);
+
+    // What produced each output line: the first traced node on it
+    const producedBy = new Map();
+    for (const e of message.entries) {
+        if (!producedBy.has(e.outputLine)) {
+            const input = e.inputLine !== undefined ? ' from input line ' + e.inputLine : '';
+            producedBy.set(e.outputLine, '<' + e.element + '> by ' + basename(e.file) + ':' + e.line + input);
         }
-        if (best) {
-            el.classList.add('highlight');
-            const sourceLine = document.querySelector('#source-pane .line[data-line="' + best.sourceLine + '"]');
-            if (sourceLine) {
-                sourceLine.classList.add('highlight');
-                sourceLine.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }
+    renderLines(outputContent, message.output.text, message.output.markers, producedBy);
+
+    moduleSelect.innerHTML = message.modules.map(m =>
+        '<option value="' + escapeHtml(m.file) + '">' + escapeHtml(m.name) + '</option>'
+    ).join('');
+    moduleSelect.classList.toggle('hidden', message.modules.length < 2);
+    const keep = message.modules.some(m => m.file === currentModule);
+    renderModule(keep ? currentModule : (message.modules[0] && message.modules[0].file));
+}
+
+function clearHighlights() {
+    document.querySelectorAll('.highlight, .selected').forEach(el => el.classList.remove('highlight', 'selected'));
+}
+
+function lineElement(container, line) {
+    return container.querySelector('.line[data-line="' + line + '"]');
+}
+
+function mark(container, lines, className) {
+    let first = null;
+    for (const line of lines) {
+        const el = lineElement(container, line);
+        if (el) {
+            el.classList.add(className);
+            if (!first || line < parseInt(first.dataset.line)) {
+                first = el;
             }
         }
-    });
+    }
+    if (first) {
+        first.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }
+}
+
+/** Entry for an output line: the first on the line, or on the nearest traced line above it */
+function entryForOutputLine(line) {
+    let best = null;
+    for (const e of run.entries) {
+        if (e.outputLine <= line && (!best || e.outputLine > best.outputLine)) {
+            best = e;
+        }
+    }
+    return best;
+}
+
+function showStylesheetLines(file, lines) {
+    if (file !== currentModule) {
+        renderModule(file);
+    }
+    mark(stylesheetContent, lines, 'highlight');
+}
+
+outputContent.addEventListener('click', event => {
+    const el = event.target.closest('.line');
+    if (!el || !run) {
+        return;
+    }
+    clearHighlights();
+    el.classList.add('selected');
+    const entry = entryForOutputLine(parseInt(el.dataset.line));
+    if (!entry) {
+        return;
+    }
+    showStylesheetLines(entry.file, [entry.line]);
+    if (entry.inputLine !== undefined) {
+        mark(sourceContent, [entry.inputLine], 'highlight');
+    }
+    vscode.postMessage({ type: 'revealXslt', file: entry.file, line: entry.line, column: entry.column });
+});
+
+stylesheetContent.addEventListener('click', event => {
+    const el = event.target.closest('.line');
+    if (!el || !run || !currentModule) {
+        return;
+    }
+    const line = parseInt(el.dataset.line);
+    clearHighlights();
+    el.classList.add('selected');
+    const entries = run.entries.filter(e => e.file === currentModule && e.line === line);
+    mark(outputContent, entries.map(e => e.outputLine), 'highlight');
+    mark(sourceContent, entries.filter(e => e.inputLine !== undefined).map(e => e.inputLine), 'highlight');
+    vscode.postMessage({ type: 'revealXslt', file: currentModule, line });
+});
+
+sourceContent.addEventListener('click', event => {
+    const el = event.target.closest('.line');
+    if (!el || !run) {
+        return;
+    }
+    const line = parseInt(el.dataset.line);
+    clearHighlights();
+    el.classList.add('selected');
+    const entries = run.entries.filter(e => e.inputLine === line);
+    mark(outputContent, entries.map(e => e.outputLine), 'highlight');
+    if (entries.length > 0) {
+        showStylesheetLines(entries[0].file, entries.filter(e => e.file === entries[0].file).map(e => e.line));
+    }
+    vscode.postMessage({ type: 'revealSource', line });
 });
 
-document.querySelectorAll('#source-pane .line').forEach(el => {
-    el.addEventListener('click', () => {
-        clearHighlights();
-        const sourceLine = parseInt(el.dataset.line);
-        el.classList.add('highlight');
-        // Find output lines mapped from this source line
-        for (const c of connections) {
-            if (c.sourceLine === sourceLine) {
-                const outputEl = document.querySelector('#output-pane .line[data-line="' + c.outputLine + '"]');
-                if (outputEl) {
-                    outputEl.classList.add('highlight');
-                    outputEl.scrollIntoView({ behavior: 'smooth', block: 'center' });
-                }
+moduleSelect.addEventListener('change', () => renderModule(moduleSelect.value));
+
+window.addEventListener('message', event => {
+    const message = event.data;
+    switch (message.type) {
+        case 'render':
+            render(message);
+            break;
+        case 'stylesheetSelection': {
+            if (!run) {
+                break;
             }
+            clearHighlights();
+            const entries = run.entries.filter(e =>
+                e.file === message.file && e.line >= message.startLine && e.line <= message.endLine);
+            const lines = [];
+            for (let line = message.startLine; line <= message.endLine; line++) {
+                lines.push(line);
+            }
+            showStylesheetLines(message.file, lines);
+            mark(outputContent, entries.map(e => e.outputLine), 'highlight');
+            break;
         }
-    });
+    }
 });
 
-function clearHighlights() {
-    document.querySelectorAll('.highlight').forEach(el => el.classList.remove('highlight'));
-}
+vscode.postMessage({ type: 'ready' });
 </script>
 </body>
 </html>`;
     }
 }
 
-function escapeHtml(text: string): string {
-    return text
-        .replace(/&/g, '&amp;')
-        .replace(/</g, '&lt;')
-        .replace(/>/g, '&gt;')
-        .replace(/"/g, '&quot;');
+/** The main stylesheet and every module a trace entry points into */
+function loadModules(run: MappingRun): Map<string, StylesheetModule> {
+    const modules = new Map<string, StylesheetModule>();
+    const files = [run.xsltStylesheet, ...run.traceEntries.map(e => e.sourceFile)];
+    for (const file of files.map(f => path.resolve(f))) {
+        if (modules.has(file)) {
+            continue;
+        }
+        try {
+            modules.set(file, { file, name: path.basename(file), text: fs.readFileSync(file, 'utf8') });
+        } catch {
+            // Not a readable file (e.g. a non-file URI reported by Saxon)
+        }
+    }
+    return modules;
+}
+
+function addMarker(markers: Record<number, GutterMarker>, line: number, severity: IssueSeverity, message: string): void {
+    const name = severity === IssueSeverity.Error ? 'error' : severity === IssueSeverity.Warning ? 'warning' : 'info';
+    const marker = markers[line];
+    if (!marker) {
+        markers[line] = { severity: name, messages: [message] };
+        return;
+    }
+    marker.messages.push(message);
+    if (name === 'error' || (name === 'warning' && marker.severity === 'info')) {
+        marker.severity = name;
+    }
+}
+
+function createNonce(): string {
+    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+    let nonce = '';
+    for (let i = 0; i < 32; i++) {
+        nonce += chars.charAt(Math.floor(Math.random() * chars.length));
+    }
+    return nonce;
 }
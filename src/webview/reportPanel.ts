@@ -0,0 +1,413 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { ValidationReport } from '../reporting/reportFormats';
+import { TracedIssue } from '../tracing/errorTraceMapper';
+import { formatBusinessTerm, getBusinessTerm } from '../semantic/businessTerms';
+import { IssueSeverity } from '../validation/types';
+import { revealIssue } from '../views/issuesView';
+
+type PanelMessage =
+    | { type: 'reveal'; index: number }
+    | { type: 'aiFix'; index: number };
+
+/**
+ * Full view of a validation run for people who don't work from the Problems
+ * panel: document details, per-layer outcome, and a sortable, filterable
+ * issue table with jump-to-line and AI fix actions per row.
+ */
+export class ReportPanel {
+    public static readonly viewType = 'ublValidationReport';
+    private static currentPanel: ReportPanel | undefined;
+
+    private readonly panel: vscode.WebviewPanel;
+    private disposables: vscode.Disposable[] = [];
+    private issues: TracedIssue[] = [];
+
+    static createOrShow(report: ValidationReport): ReportPanel {
+        const column = vscode.ViewColumn.Beside;
+
+        if (ReportPanel.currentPanel) {
+            ReportPanel.currentPanel.update(report);
+            ReportPanel.currentPanel.panel.reveal(column);
+            return ReportPanel.currentPanel;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            ReportPanel.viewType,
+            'UBL Validation Report',
+            column,
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true,
+            }
+        );
+
+        ReportPanel.currentPanel = new ReportPanel(panel, report);
+        return ReportPanel.currentPanel;
+    }
+
+    /** Refreshes the open panel, if any, after a new run */
+    static updateIfOpen(report: ValidationReport): void {
+        ReportPanel.currentPanel?.update(report);
+    }
+
+    private constructor(panel: vscode.WebviewPanel, report: ValidationReport) {
+        this.panel = panel;
+        this.update(report);
+
+        this.panel.webview.onDidReceiveMessage((message: PanelMessage) => this.onMessage(message), null, this.disposables);
+        this.panel.onDidDispose(() => this.dispose(), null, this.disposables);
+    }
+
+    update(report: ValidationReport): void {
+        this.issues = report.issues;
+        this.panel.title = `UBL Report: ${path.basename(report.documentPath)}`;
+        this.panel.webview.html = this.getHtml(report);
+    }
+
+    dispose(): void {
+        ReportPanel.currentPanel = undefined;
+        this.panel.dispose();
+        for (const d of this.disposables) {
+            d.dispose();
+        }
+        this.disposables = [];
+    }
+
+    private async onMessage(message: PanelMessage): Promise<void> {
+        const issue = this.issues[message.index];
+        if (!issue) {
+            return;
+        }
+        switch (message.type) {
+            case 'reveal':
+                await revealIssue(issue);
+                break;
+            case 'aiFix':
+                await vscode.commands.executeCommand('xslt-transformer.aiFixSingle', issue);
+                break;
+        }
+    }
+
+    private getHtml(report: ValidationReport): string {
+        const { result } = report;
+        const nonce = createNonce();
+        const layerLabels = new Map(result.rulesetResults.map(r => [r.id, r.label]));
+
+        const rows = report.issues.map((issue, index) => ({
+            index,
+            severity: issue.severity,
+            severityName: severityName(issue.severity),
+            layer: issue.source === 'xsd' ? 'XSD' : layerLabels.get(issue.source) ?? issue.source,
+            ruleId: issue.ruleId ?? '',
+            message: issue.message,
+            location: issue.location ?? '',
+            businessTerm: businessTermLabel(issue.businessTerm),
+            line: issue.line,
+            xslt: issue.xsltSourceFile && issue.xsltSourceLine
+                ? `${path.basename(issue.xsltSourceFile)}:${issue.xsltSourceLine}`
+                : '',
+            fixable: Boolean(issue.xsltSourceFile),
+            context: issue.schematron?.context ?? '',
+            test: issue.schematron?.test ?? '',
+            pattern: issue.schematron?.pattern ?? '',
+            diagnostics: (issue.schematron?.diagnostics ?? []).map(d => d.text),
+        }));
+
+        const layers: Array<{ label: string; passed: boolean }> = [];
+        if (result.xsdDurationMs !== undefined || result.fromCache) {
+            layers.push({ label: 'XSD', passed: result.xsdPassed });
+        }
+        layers.push(...result.rulesetResults.map(r => ({ label: r.label, passed: r.passed })));
+
+        const info = result.documentInfo;
+        const infoRows: Array<[string, string]> = [
+            ['Document', report.documentPath],
+            ['Syntax', info ? info.syntax.toUpperCase() : 'unknown'],
+            ['Document type', info?.documentType ?? 'unknown'],
+            ['Root element', info?.rootElement ?? ''],
+            ['Namespace', info?.namespace ?? ''],
+            ['CustomizationID', info?.customizationId ?? '(none)'],
+            ['Business rules', info?.isInvoiceOrCreditNote ? 'applicable' : 'not applicable (XSD only)'],
+        ];
+        if (report.sourceXml) {
+            infoRows.push(['Source XML', report.sourceXml]);
+        }
+        if (report.xsltStylesheet) {
+            infoRows.push(['Stylesheet', report.xsltStylesheet]);
+        }
+        infoRows.push(['Validated', new Date(report.generatedAt).toLocaleString() + (result.fromCache ? ' (cached)' : '')]);
+
+        const errors = report.issues.filter(i => i.severity === IssueSeverity.Error).length;
+        const warnings = report.issues.filter(i => i.severity === IssueSeverity.Warning).length;
+
+        const bannerHtml = layers.map(l =>
+            `<span class="layer ${l.passed ? 'passed' : 'failed'}">${l.passed ? '&#10003;' : '&#10007;'} ${escapeHtml(l.label)}</span>`
+        ).join('');
+        const infoHtml = infoRows.map(([k, v]) =>
+            `<tr><th>${escapeHtml(k)}</th><td>${escapeHtml(v)}</td></tr>`
+        ).join('');
+        const layerOptions = [...new Set(rows.map(r => r.layer))].map(l =>
+            `<option value="${escapeHtml(l)}">${escapeHtml(l)}</option>`
+        ).join('');
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<style>
+body {
+    font-family: var(--vscode-font-family);
+    font-size: var(--vscode-font-size);
+    color: var(--vscode-foreground);
+    background: var(--vscode-editor-background);
+    padding: 12px 16px;
+}
+h2 { font-size: 1.2em; margin: 16px 0 8px; }
+.banner { display: flex; flex-wrap: wrap; gap: 8px; align-items: center; margin-bottom: 8px; }
+.layer { padding: 2px 10px; border-radius: 10px; font-weight: bold; }
+.layer.passed { background: var(--vscode-testing-iconPassed, #388a34); color: var(--vscode-editor-background); }
+.layer.failed { background: var(--vscode-testing-iconFailed, #f14c4c); color: var(--vscode-editor-background); }
+.counts { margin-left: 8px; }
+table { border-collapse: collapse; width: 100%; }
+table.info th { text-align: left; width: 160px; padding: 2px 8px 2px 0; color: var(--vscode-descriptionForeground); font-weight: normal; }
+table.info td { padding: 2px 0; word-break: break-all; }
+.filters { display: flex; gap: 8px; margin-bottom: 8px; }
+.filters input { flex: 1; }
+input, select, button {
+    font-family: inherit;
+    font-size: inherit;
+    color: var(--vscode-input-foreground);
+    background: var(--vscode-input-background);
+    border: 1px solid var(--vscode-input-border, transparent);
+    padding: 3px 6px;
+}
+button {
+    color: var(--vscode-button-foreground);
+    background: var(--vscode-button-background);
+    border: none;
+    cursor: pointer;
+}
+button:hover { background: var(--vscode-button-hoverBackground); }
+button:disabled { opacity: 0.4; cursor: default; }
+table.issues th {
+    text-align: left;
+    padding: 4px 6px;
+    border-bottom: 1px solid var(--vscode-panel-border);
+    cursor: pointer;
+    user-select: none;
+    white-space: nowrap;
+}
+table.issues th.sorted-asc::after { content: ' \\25B2'; }
+table.issues th.sorted-desc::after { content: ' \\25BC'; }
+table.issues td { padding: 3px 6px; vertical-align: top; border-bottom: 1px solid var(--vscode-panel-border); }
+table.issues tr { cursor: pointer; }
+table.issues tbody tr:hover { background: var(--vscode-list-hoverBackground); }
+table.issues tr.selected { background: var(--vscode-list-activeSelectionBackground); color: var(--vscode-list-activeSelectionForeground); }
+td.location, td.xslt { font-family: var(--vscode-editor-font-family); font-size: 0.9em; word-break: break-all; }
+td.actions { white-space: nowrap; }
+.sev-error { color: var(--vscode-errorForeground); }
+.sev-warning { color: var(--vscode-editorWarning-foreground); }
+.sev-info { color: var(--vscode-editorInfo-foreground); }
+.layout { display: flex; gap: 16px; align-items: flex-start; }
+.layout .table-pane { flex: 3; min-width: 0; }
+.layout .rule-pane {
+    flex: 1;
+    min-width: 220px;
+    position: sticky;
+    top: 12px;
+    padding: 8px 12px;
+    border-left: 2px solid var(--vscode-panel-border);
+}
+.rule-pane h3 { margin: 0 0 8px; }
+.rule-pane dt { color: var(--vscode-descriptionForeground); margin-top: 8px; }
+.rule-pane dd { margin: 2px 0 0; word-break: break-word; }
+.muted { color: var(--vscode-descriptionForeground); }
+</style>
+</head>
+<body>
+<div class="banner">${bannerHtml}<span class="counts">${errors} error(s), ${warnings} warning(s)</span></div>
+
+<h2>Document</h2>
+<table class="info">${infoHtml}</table>
+
+<h2>Issues</h2>
+<div class="filters">
+    <input id="filter" type="search" placeholder="Filter by rule, message, location, business term or XSLT source">
+    <select id="severity">
+        <option value="">All severities</option>
+        <option value="error">Errors</option>
+        <option value="warning">Warnings</option>
+        <option value="info">Info</option>
+    </select>
+    <select id="layer"><option value="">All layers</option>${layerOptions}</select>
+</div>
+<div class="layout">
+    <div class="table-pane">
+        <table class="issues">
+            <thead><tr>
+                <th data-key="severity">Severity</th>
+                <th data-key="layer">Layer</th>
+                <th data-key="ruleId">Rule</th>
+                <th data-key="message">Message</th>
+                <th data-key="location">Location</th>
+                <th data-key="businessTerm">Business term</th>
+                <th data-key="xslt">XSLT source</th>
+                <th></th>
+            </tr></thead>
+            <tbody id="rows"></tbody>
+        </table>
+        <p id="empty" class="muted"></p>
+    </div>
+    <div class="rule-pane" id="rule-pane"><p class="muted">Select an issue to see its rule.</p></div>
+</div>
+
+<script nonce="${nonce}">
+const vscode = acquireVsCodeApi();
+const rows = ${JSON.stringify(rows).replace(/</g, '\\u003c')};
+let sortKey = 'severity';
+let sortDir = 1;
+let selected = null;
+
+const tbody = document.getElementById('rows');
+const filterInput = document.getElementById('filter');
+const severitySelect = document.getElementById('severity');
+const layerSelect = document.getElementById('layer');
+
+function escapeHtml(text) {
+    return String(text).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function visibleRows() {
+    const text = filterInput.value.trim().toLowerCase();
+    const severity = severitySelect.value;
+    const layer = layerSelect.value;
+    return rows
+        .filter(r => !severity || r.severityName === severity)
+        .filter(r => !layer || r.layer === layer)
+        .filter(r => !text || [r.ruleId, r.message, r.location, r.xslt].concat(r.businessTerm).some(v => v.toLowerCase().includes(text)))
+        .sort((a, b) => {
+            const x = a[sortKey];
+            const y = b[sortKey];
+            const order = typeof x === 'number' ? x - y : String(x).localeCompare(String(y));
+            return (order || a.index - b.index) * sortDir;
+        });
+}
+
+function render() {
+    const visible = visibleRows();
+    tbody.innerHTML = visible.map(r =>
+        '<tr data-index="' + r.index + '"' + (r.index === selected ? ' class="selected"' : '') + '>' +
+        '<td class="sev-' + r.severityName + '">' + r.severityName + '</td>' +
+        '<td>' + escapeHtml(r.layer) + '</td>' +
+        '<td>' + escapeHtml(r.ruleId) + '</td>' +
+        '<td>' + escapeHtml(r.message) + '</td>' +
+        '<td class="location">' + escapeHtml(r.location) + '</td>' +
+        '<td>' + escapeHtml(r.businessTerm) + '</td>' +
+        '<td class="xslt">' + escapeHtml(r.xslt) + '</td>' +
+        '<td class="actions">' +
+            '<button data-action="reveal" title="Open the output at line ' + r.line + '">Go to line</button> ' +
+            '<button data-action="aiFix"' + (r.fixable ? '' : ' disabled title="No XSLT trace for this issue"') + '>AI Fix</button>' +
+        '</td></tr>'
+    ).join('');
+    document.getElementById('empty').textContent = rows.length === 0
+        ? 'No issues.'
+        : visible.length === 0 ? 'No issues match the filter.' : '';
+    document.querySelectorAll('table.issues th[data-key]').forEach(th => {
+        th.classList.toggle('sorted-asc', th.dataset.key === sortKey && sortDir === 1);
+        th.classList.toggle('sorted-desc', th.dataset.key === sortKey && sortDir === -1);
+    });
+}
+
+function showRule(index) {
+    const row = rows[index];
+    const sameRule = rows.filter(r => r.ruleId && r.ruleId === row.ruleId && r.layer === row.layer);
+    const pane = document.getElementById('rule-pane');
+    pane.innerHTML =
+        '<h3>' + escapeHtml(row.ruleId || row.layer + ' issue') + '</h3>' +
+        '<dl>' +
+        '<dt>Layer</dt><dd>' + escapeHtml(row.layer) + '</dd>' +
+        '<dt>Severity</dt><dd class="sev-' + row.severityName + '">' + row.severityName + '</dd>' +
+        '<dt>Message</dt><dd>' + escapeHtml(row.message) + '</dd>' +
+        (row.location ? '<dt>Location</dt><dd class="location">' + escapeHtml(row.location) + '</dd>' : '') +
+        (row.businessTerm ? '<dt>Business term</dt><dd>' + escapeHtml(row.businessTerm) + '</dd>' : '') +
+        '<dt>Output line</dt><dd>' + row.line + '</dd>' +
+        (row.xslt ? '<dt>Produced by</dt><dd class="xslt">' + escapeHtml(row.xslt) + '</dd>' : '') +
+        (row.context ? '<dt>Rule context</dt><dd class="location">' + escapeHtml(row.context) + '</dd>' : '') +
+        (row.test ? '<dt>Test</dt><dd class="location">' + escapeHtml(row.test) + '</dd>' : '') +
+        (row.pattern ? '<dt>Pattern</dt><dd>' + escapeHtml(row.pattern) + '</dd>' : '') +
+        row.diagnostics.map(d => '<dt>Diagnostic</dt><dd>' + escapeHtml(d) + '</dd>').join('') +
+        (sameRule.length > 1 ? '<dt>Occurrences</dt><dd>' + sameRule.length + ' in this document</dd>' : '') +
+        '</dl>';
+}
+
+tbody.addEventListener('click', event => {
+    const tr = event.target.closest('tr');
+    if (!tr) {
+        return;
+    }
+    const index = parseInt(tr.dataset.index, 10);
+    const action = event.target.dataset && event.target.dataset.action;
+    if (action) {
+        vscode.postMessage({ type: action, index });
+        return;
+    }
+    selected = index;
+    showRule(index);
+    render();
+});
+
+document.querySelectorAll('table.issues th[data-key]').forEach(th => {
+    th.addEventListener('click', () => {
+        if (sortKey === th.dataset.key) {
+            sortDir = -sortDir;
+        } else {
+            sortKey = th.dataset.key;
+            sortDir = 1;
+        }
+        render();
+    });
+});
+
+[filterInput, severitySelect, layerSelect].forEach(el => el.addEventListener('input', render));
+render();
+</script>
+</body>
+</html>`;
+    }
+}
+
+function businessTermLabel(id: string | undefined): string {
+    const term = id ? getBusinessTerm(id) : undefined;
+    return term ? formatBusinessTerm(term) : id ?? '';
+}
+
+function severityName(severity: IssueSeverity): 'error' | 'warning' | 'info' {
+    switch (severity) {
+        case IssueSeverity.Error:
+            return 'error';
+        case IssueSeverity.Warning:
+            return 'warning';
+        default:
+            return 'info';
+    }
+}
+
+function createNonce(): string {
+    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+    let nonce = '';
+    for (let i = 0; i < 32; i++) {
+        nonce += chars.charAt(Math.floor(Math.random() * chars.length));
+    }
+    return nonce;
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
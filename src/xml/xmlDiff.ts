@@ -0,0 +1,165 @@
+import { attributeNamespace, childElements, directText, XmlElement } from './xmlDom';
+
+export type XmlDifferenceKind =
+    | 'element-added'
+    | 'element-removed'
+    | 'element-renamed'
+    | 'text-changed'
+    | 'attribute-added'
+    | 'attribute-removed'
+    | 'attribute-changed';
+
+export interface XmlDifference {
+    kind: XmlDifferenceKind;
+    /** Path of the element in the expected document (actual document for additions) */
+    path: string;
+    expected?: string;
+    actual?: string;
+    /** Source offsets of the elements involved, for jumping to them */
+    expectedOffset?: number;
+    actualOffset?: number;
+}
+
+/**
+ * Compares two element trees structurally: elements match by namespace URI
+ * and local name (prefixes and namespace declarations don't matter),
+ * attributes are compared as a set, text is compared with leading/trailing
+ * whitespace trimmed and inner whitespace runs collapsed, and comments and
+ * whitespace-only text are ignored. Child order matters, as it does in UBL;
+ * children are aligned with a longest common subsequence so one missing
+ * element is reported once instead of shifting every later sibling.
+ */
+export function diffXml(expected: XmlElement, actual: XmlElement): XmlDifference[] {
+    const differences: XmlDifference[] = [];
+    if (!sameName(expected, actual)) {
+        differences.push({
+            kind: 'element-renamed',
+            path: `/${expected.name}`,
+            expected: expected.name,
+            actual: actual.name,
+            expectedOffset: expected.startOffset,
+            actualOffset: actual.startOffset,
+        });
+        return differences;
+    }
+    compareElements(expected, actual, `/${expected.name}`, differences);
+    return differences;
+}
+
+function sameName(a: XmlElement, b: XmlElement): boolean {
+    return a.localName === b.localName && a.namespaceUri === b.namespaceUri;
+}
+
+function normalizeText(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+}
+
+function attributeKey(element: XmlElement, name: string): string {
+    const colon = name.indexOf(':');
+    const localName = colon === -1 ? name : name.slice(colon + 1);
+    const ns = attributeNamespace(element, name);
+    return ns ? `{${ns}}${localName}` : localName;
+}
+
+function attributeMap(element: XmlElement): Map<string, { name: string; value: string }> {
+    const map = new Map<string, { name: string; value: string }>();
+    for (const [name, value] of element.attributes) {
+        map.set(attributeKey(element, name), { name, value });
+    }
+    return map;
+}
+
+function compareElements(expected: XmlElement, actual: XmlElement, path: string, out: XmlDifference[]): void {
+    const offsets = { expectedOffset: expected.startOffset, actualOffset: actual.startOffset };
+
+    const expectedAttrs = attributeMap(expected);
+    const actualAttrs = attributeMap(actual);
+    for (const [key, attr] of expectedAttrs) {
+        const other = actualAttrs.get(key);
+        if (!other) {
+            out.push({ kind: 'attribute-removed', path: `${path}/@${attr.name}`, expected: attr.value, ...offsets });
+        } else if (other.value !== attr.value) {
+            out.push({ kind: 'attribute-changed', path: `${path}/@${attr.name}`, expected: attr.value, actual: other.value, ...offsets });
+        }
+    }
+    for (const [key, attr] of actualAttrs) {
+        if (!expectedAttrs.has(key)) {
+            out.push({ kind: 'attribute-added', path: `${path}/@${attr.name}`, actual: attr.value, ...offsets });
+        }
+    }
+
+    const expectedChildren = childElements(expected);
+    const actualChildren = childElements(actual);
+
+    // Mixed content is rare in UBL; compare the element's own text only
+    const expectedText = normalizeText(directText(expected));
+    const actualText = normalizeText(directText(actual));
+    if (expectedText !== actualText) {
+        out.push({ kind: 'text-changed', path, expected: expectedText, actual: actualText, ...offsets });
+    }
+
+    const pairs = alignChildren(expectedChildren, actualChildren);
+    const positions = new Map<string, number>();
+    const stepFor = (element: XmlElement) => {
+        const key = element.name;
+        const index = (positions.get(key) ?? 0) + 1;
+        positions.set(key, index);
+        return `${path}/${element.name}[${index}]`;
+    };
+
+    for (const [e, a] of pairs) {
+        if (e && a) {
+            compareElements(e, a, stepFor(e), out);
+        } else if (e) {
+            out.push({ kind: 'element-removed', path: stepFor(e), expected: e.name, expectedOffset: e.startOffset, actualOffset: actual.startOffset });
+        } else if (a) {
+            out.push({
+                kind: 'element-added',
+                path: `${path}/${a.name}`,
+                actual: a.name,
+                expectedOffset: expected.startOffset,
+                actualOffset: a.startOffset,
+            });
+        }
+    }
+}
+
+/**
+ * Longest-common-subsequence alignment of two sibling lists by element name.
+ * Returns pairs in document order; unmatched elements pair with undefined.
+ */
+function alignChildren(
+    expected: XmlElement[],
+    actual: XmlElement[]
+): Array<[XmlElement | undefined, XmlElement | undefined]> {
+    const n = expected.length;
+    const m = actual.length;
+    const table: number[][] = Array.from({ length: n + 1 }, () => new Array(m + 1).fill(0));
+    for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+            table[i][j] = sameName(expected[i], actual[j])
+                ? table[i + 1][j + 1] + 1
+                : Math.max(table[i + 1][j], table[i][j + 1]);
+        }
+    }
+
+    const pairs: Array<[XmlElement | undefined, XmlElement | undefined]> = [];
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+        if (sameName(expected[i], actual[j])) {
+            pairs.push([expected[i++], actual[j++]]);
+        } else if (table[i + 1][j] >= table[i][j + 1]) {
+            pairs.push([expected[i++], undefined]);
+        } else {
+            pairs.push([undefined, actual[j++]]);
+        }
+    }
+    while (i < n) {
+        pairs.push([expected[i++], undefined]);
+    }
+    while (j < m) {
+        pairs.push([undefined, actual[j++]]);
+    }
+    return pairs;
+}
@@ -0,0 +1,203 @@
+import { LineIndex, parseXml, XmlPosition } from './xmlParser';
+
+export interface XmlElement {
+    type: 'element';
+    /** Qualified name as written, e.g. "cbc:ID" */
+    name: string;
+    localName: string;
+    prefix: string;
+    /** Resolved namespace URI, '' when none */
+    namespaceUri: string;
+    /** Attributes excluding xmlns declarations, by qualified name */
+    attributes: Map<string, string>;
+    /** In-scope namespace declarations made on this element, prefix -> URI ('' for default) */
+    namespaceDeclarations: Map<string, string>;
+    children: XmlNode[];
+    parent: XmlElement | null;
+    /** Offset of "<" of the start tag */
+    startOffset: number;
+    /** Offset just past the ">" (or "/>") of the start tag */
+    startTagEndOffset: number;
+    /** Offset just past the end tag (or "/>") */
+    endOffset: number;
+    start: XmlPosition;
+    startTagEnd: XmlPosition;
+    end: XmlPosition;
+}
+
+export interface XmlText {
+    type: 'text';
+    /** Decoded text; CDATA sections are merged in as plain text */
+    value: string;
+    startOffset: number;
+    endOffset: number;
+    start: XmlPosition;
+    end: XmlPosition;
+}
+
+export interface XmlComment {
+    type: 'comment';
+    value: string;
+    startOffset: number;
+    endOffset: number;
+    start: XmlPosition;
+    end: XmlPosition;
+}
+
+export type XmlNode = XmlElement | XmlText | XmlComment;
+
+export interface XmlDocument {
+    root: XmlElement;
+    /** Converts further offsets of the parsed text to line/column */
+    lineIndex: LineIndex;
+}
+
+const XML_NS = 'http://www.w3.org/XML/1998/namespace';
+
+function splitName(name: string): { prefix: string; localName: string } {
+    const colon = name.indexOf(':');
+    return colon === -1
+        ? { prefix: '', localName: name }
+        : { prefix: name.slice(0, colon), localName: name.slice(colon + 1) };
+}
+
+function lookupNamespace(element: XmlElement | null, prefix: string): string | undefined {
+    if (prefix === 'xml') {
+        return XML_NS;
+    }
+    for (let e = element; e; e = e.parent) {
+        const uri = e.namespaceDeclarations.get(prefix);
+        if (uri !== undefined) {
+            return uri;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Parses XML into an element tree with namespaces resolved and source
+ * offsets and line/column positions on every node. Throws XmlParseError on
+ * malformed input.
+ */
+export function parseXmlDocument(text: string): XmlDocument {
+    const lineIndex = new LineIndex(text);
+    let root: XmlElement | null = null;
+    let current: XmlElement | null = null;
+
+    const appendText = (value: string, startOffset: number, endOffset: number) => {
+        if (!current) {
+            return;
+        }
+        const last = current.children[current.children.length - 1];
+        if (last?.type === 'text' && last.endOffset === startOffset) {
+            last.value += value;
+            last.endOffset = endOffset;
+            last.end = lineIndex.positionAt(endOffset);
+        } else {
+            current.children.push({
+                type: 'text',
+                value,
+                startOffset,
+                endOffset,
+                start: lineIndex.positionAt(startOffset),
+                end: lineIndex.positionAt(endOffset),
+            });
+        }
+    };
+
+    parseXml(text, {
+        onStartElement(name, attributes, _selfClosing, offset, endOffset) {
+            const { prefix, localName } = splitName(name);
+            const element: XmlElement = {
+                type: 'element',
+                name,
+                localName,
+                prefix,
+                namespaceUri: '',
+                attributes: new Map(),
+                namespaceDeclarations: new Map(),
+                children: [],
+                parent: current,
+                startOffset: offset,
+                startTagEndOffset: endOffset,
+                endOffset,
+                start: lineIndex.positionAt(offset),
+                startTagEnd: lineIndex.positionAt(endOffset),
+                end: lineIndex.positionAt(endOffset),
+            };
+            for (const attr of attributes) {
+                if (attr.name === 'xmlns') {
+                    element.namespaceDeclarations.set('', attr.value);
+                } else if (attr.name.startsWith('xmlns:')) {
+                    element.namespaceDeclarations.set(attr.name.slice(6), attr.value);
+                } else {
+                    element.attributes.set(attr.name, attr.value);
+                }
+            }
+            element.namespaceUri = lookupNamespace(element, prefix) ?? '';
+
+            if (current) {
+                current.children.push(element);
+            } else if (!root) {
+                root = element;
+            }
+            current = element;
+        },
+        onEndElement(_name, _offset, endOffset) {
+            if (current) {
+                current.endOffset = endOffset;
+                current.end = lineIndex.positionAt(endOffset);
+                current = current.parent;
+            }
+        },
+        onText: appendText,
+        onCData: appendText,
+        onComment(value, startOffset, endOffset) {
+            current?.children.push({
+                type: 'comment',
+                value,
+                startOffset,
+                endOffset,
+                start: lineIndex.positionAt(startOffset),
+                end: lineIndex.positionAt(endOffset),
+            });
+        },
+    });
+
+    if (!root) {
+        throw new Error('Document has no root element');
+    }
+    return { root, lineIndex };
+}
+
+/** Namespace URI of a prefixed attribute name, '' for unprefixed attributes */
+export function attributeNamespace(element: XmlElement, qualifiedName: string): string {
+    const { prefix } = splitName(qualifiedName);
+    return prefix ? lookupNamespace(element, prefix) ?? '' : '';
+}
+
+export function childElements(element: XmlElement): XmlElement[] {
+    return element.children.filter((c): c is XmlElement => c.type === 'element');
+}
+
+/** Concatenated text of direct text children */
+export function directText(element: XmlElement): string {
+    return element.children
+        .filter((c): c is XmlText => c.type === 'text')
+        .map(c => c.value)
+        .join('');
+}
+
+/** Innermost element whose source (start tag through end tag) contains the offset */
+export function elementAtOffset(element: XmlElement, offset: number): XmlElement | undefined {
+    if (offset < element.startOffset || offset >= element.endOffset) {
+        return undefined;
+    }
+    for (const child of childElements(element)) {
+        const inner = elementAtOffset(child, offset);
+        if (inner) {
+            return inner;
+        }
+    }
+    return element;
+}
@@ -0,0 +1,268 @@
+/**
+ * Small non-validating streaming XML parser. It reports elements, text,
+ * CDATA, comments and processing instructions through callbacks, with the
+ * source offset of each event. Entities in text and attribute values are
+ * decoded; DTDs are skipped.
+ */
+
+export interface XmlAttribute {
+    name: string;
+    value: string;
+    /** Offset of the attribute name */
+    offset: number;
+}
+
+export interface XmlHandler {
+    onStartElement?(name: string, attributes: XmlAttribute[], selfClosing: boolean, offset: number, endOffset: number): void;
+    /** Also called for self-closing elements, right after onStartElement */
+    onEndElement?(name: string, offset: number, endOffset: number): void;
+    onText?(text: string, offset: number, endOffset: number): void;
+    onCData?(text: string, offset: number, endOffset: number): void;
+    onComment?(text: string, offset: number, endOffset: number): void;
+    onProcessingInstruction?(target: string, data: string, offset: number, endOffset: number): void;
+}
+
+export class XmlParseError extends Error {
+    constructor(message: string, public readonly offset: number, public readonly line: number, public readonly column: number) {
+        super(`${message} at line ${line}, column ${column + 1}`);
+    }
+}
+
+/** 1-based line and 0-based column, matching ValidationIssue */
+export interface XmlPosition {
+    line: number;
+    column: number;
+}
+
+/**
+ * Converts offsets to line/column. Line starts are computed once, so looking
+ * up many positions in a large document stays cheap.
+ */
+export class LineIndex {
+    private readonly lineStarts: number[] = [0];
+
+    constructor(text: string) {
+        for (let i = 0; i < text.length; i++) {
+            if (text.charCodeAt(i) === 10) {
+                this.lineStarts.push(i + 1);
+            }
+        }
+    }
+
+    positionAt(offset: number): XmlPosition {
+        let low = 0;
+        let high = this.lineStarts.length - 1;
+        while (low < high) {
+            const mid = (low + high + 1) >> 1;
+            if (this.lineStarts[mid] <= offset) {
+                low = mid;
+            } else {
+                high = mid - 1;
+            }
+        }
+        return { line: low + 1, column: offset - this.lineStarts[low] };
+    }
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+    lt: '<',
+    gt: '>',
+    amp: '&',
+    quot: '"',
+    apos: '\'',
+};
+
+/** Code points a character reference may name (the XML 1.0 Char production) */
+function isXmlChar(codePoint: number): boolean {
+    return codePoint === 0x9 || codePoint === 0xA || codePoint === 0xD
+        || (codePoint >= 0x20 && codePoint <= 0xD7FF)
+        || (codePoint >= 0xE000 && codePoint <= 0xFFFD)
+        || (codePoint >= 0x10000 && codePoint <= 0x10FFFF);
+}
+
+/**
+ * Expands character references and the predefined entities. A reference to
+ * a code point outside the XML character range is reported through fail,
+ * with its index in text; by default as an XmlParseError positioned in text.
+ */
+export function decodeEntities(
+    text: string,
+    fail: (message: string, index: number) => never = (message, index) => {
+        const { line, column } = new LineIndex(text).positionAt(index);
+        throw new XmlParseError(message, index, line, column);
+    }
+): string {
+    if (!text.includes('&')) {
+        return text;
+    }
+    return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[A-Za-z_][\w.-]*);/g, (match, entity: string, index: number) => {
+        if (entity.startsWith('#')) {
+            const codePoint = entity.startsWith('#x') ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+            if (!isXmlChar(codePoint)) {
+                return fail(`Invalid character reference ${match}`, index);
+            }
+            return String.fromCodePoint(codePoint);
+        }
+        // Entities declared in a DTD are not expanded
+        return NAMED_ENTITIES[entity] ?? match;
+    });
+}
+
+const NAME_CHAR = /[^\s/>=<"']/;
+
+export function parseXml(text: string, handler: XmlHandler): void {
+    const length = text.length;
+    let pos = 0;
+    const openElements: string[] = [];
+    let lineIndex: LineIndex | undefined;
+
+    const fail = (message: string, offset: number): never => {
+        lineIndex = lineIndex ?? new LineIndex(text);
+        const { line, column } = lineIndex.positionAt(offset);
+        throw new XmlParseError(message, offset, line, column);
+    };
+
+    const expectIndexOf = (token: string, from: number, what: string): number => {
+        const index = text.indexOf(token, from);
+        if (index === -1) {
+            fail(`Unterminated ${what}`, from);
+        }
+        return index;
+    };
+
+    const readName = (from: number): number => {
+        let end = from;
+        while (end < length && NAME_CHAR.test(text[end])) {
+            end++;
+        }
+        if (end === from) {
+            fail('Expected a name', from);
+        }
+        return end;
+    };
+
+    const skipSpace = (from: number): number => {
+        while (from < length && /\s/.test(text[from])) {
+            from++;
+        }
+        return from;
+    };
+
+    while (pos < length) {
+        const lt = text.indexOf('<', pos);
+        const textEnd = lt === -1 ? length : lt;
+        if (textEnd > pos) {
+            if (openElements.length > 0) {
+                const textStart = pos;
+                const decoded = decodeEntities(text.slice(textStart, textEnd), (message, index) => fail(message, textStart + index));
+                handler.onText?.(decoded, textStart, textEnd);
+            } else if (text.slice(pos, textEnd).trim()) {
+                fail('Text outside the root element', pos);
+            }
+        }
+        if (lt === -1) {
+            break;
+        }
+        pos = lt;
+
+        if (text.startsWith('<!--', pos)) {
+            const end = expectIndexOf('-->', pos + 4, 'comment');
+            handler.onComment?.(text.slice(pos + 4, end), pos, end + 3);
+            pos = end + 3;
+        } else if (text.startsWith('<![CDATA[', pos)) {
+            const end = expectIndexOf(']]>', pos + 9, 'CDATA section');
+            handler.onCData?.(text.slice(pos + 9, end), pos, end + 3);
+            pos = end + 3;
+        } else if (text.startsWith('<?', pos)) {
+            const end = expectIndexOf('?>', pos + 2, 'processing instruction');
+            const nameEnd = readName(pos + 2);
+            handler.onProcessingInstruction?.(text.slice(pos + 2, nameEnd), text.slice(nameEnd, end).trim(), pos, end + 2);
+            pos = end + 2;
+        } else if (text.startsWith('<!', pos)) {
+            // DOCTYPE, possibly with an internal subset in brackets
+            let depth = 0;
+            let i = pos + 2;
+            for (; i < length; i++) {
+                const ch = text[i];
+                if (ch === '[') {
+                    depth++;
+                } else if (ch === ']') {
+                    depth--;
+                } else if (ch === '>' && depth <= 0) {
+                    break;
+                }
+            }
+            if (i >= length) {
+                fail('Unterminated declaration', pos);
+            }
+            pos = i + 1;
+        } else if (text[pos + 1] === '/') {
+            const nameEnd = readName(pos + 2);
+            const name = text.slice(pos + 2, nameEnd);
+            const close = skipSpace(nameEnd);
+            if (text[close] !== '>') {
+                fail(`Malformed end tag </${name}>`, pos);
+            }
+            const open = openElements.pop();
+            if (open !== name) {
+                fail(open ? `End tag </${name}> does not match <${open}>` : `Unexpected end tag </${name}>`, pos);
+            }
+            handler.onEndElement?.(name, pos, close + 1);
+            pos = close + 1;
+        } else {
+            const start = pos;
+            const nameEnd = readName(pos + 1);
+            const name = text.slice(pos + 1, nameEnd);
+            const attributes: XmlAttribute[] = [];
+            let i = nameEnd;
+            let selfClosing = false;
+
+            for (;;) {
+                i = skipSpace(i);
+                if (i >= length) {
+                    fail(`Unterminated start tag <${name}>`, start);
+                }
+                if (text[i] === '>') {
+                    i++;
+                    break;
+                }
+                if (text.startsWith('/>', i)) {
+                    selfClosing = true;
+                    i += 2;
+                    break;
+                }
+                const attrStart = i;
+                const attrNameEnd = readName(i);
+                i = skipSpace(attrNameEnd);
+                if (text[i] !== '=') {
+                    fail(`Attribute "${text.slice(attrStart, attrNameEnd)}" has no value`, attrStart);
+                }
+                i = skipSpace(i + 1);
+                const quote = text[i];
+                if (quote !== '"' && quote !== '\'') {
+                    fail('Attribute value must be quoted', i);
+                }
+                const valueStart = i + 1;
+                const valueEnd = expectIndexOf(quote, valueStart, 'attribute value');
+                attributes.push({
+                    name: text.slice(attrStart, attrNameEnd),
+                    value: decodeEntities(text.slice(valueStart, valueEnd), (message, index) => fail(message, valueStart + index)),
+                    offset: attrStart,
+                });
+                i = valueEnd + 1;
+            }
+
+            handler.onStartElement?.(name, attributes, selfClosing, start, i);
+            if (selfClosing) {
+                handler.onEndElement?.(name, start, i);
+            } else {
+                openElements.push(name);
+            }
+            pos = i;
+        }
+    }
+
+    if (openElements.length > 0) {
+        fail(`Element <${openElements[openElements.length - 1]}> is not closed`, length);
+    }
+}
@@ -0,0 +1,125 @@
+import { childElements, XmlElement } from './xmlDom';
+import { XmlPosition } from './xmlParser';
+
+/** One location step such as *:InvoiceLine[3], cbc:ID, Q{urn:x}Name[1] or @schemeID */
+interface LocationStep {
+    /** Local name to match, or '*' for any */
+    localName: string;
+    /** Namespace URI to match, when the step names one (Q{...} or namespace-uri() predicate) */
+    namespaceUri?: string;
+    /** 1-based position among the matching siblings */
+    position: number;
+    attribute: boolean;
+}
+
+export interface XPathLocation {
+    /** Deepest element the path could be followed to */
+    element: XmlElement;
+    /** False when a step could not be matched and element is an ancestor of the target */
+    exact: boolean;
+    /** Attribute name as written in the document, for paths ending in an @ step */
+    attribute?: string;
+}
+
+/** Splits a location path on "/" outside of predicates and Q{...} namespace literals */
+export function splitLocationPath(xpath: string): string[] {
+    const steps: string[] = [];
+    let depth = 0;
+    let step = '';
+    for (const ch of xpath) {
+        if (ch === '[' || ch === '{') {
+            depth++;
+        } else if (ch === ']' || ch === '}') {
+            depth--;
+        }
+        if (ch === '/' && depth === 0) {
+            if (step) {
+                steps.push(step);
+            }
+            step = '';
+        } else {
+            step += ch;
+        }
+    }
+    if (step) {
+        steps.push(step);
+    }
+    return steps;
+}
+
+function parseStep(text: string): LocationStep | null {
+    const m = /^(@)?(?:Q\{([^}]*)\}|(?:[\w.-]+|\*):)?([\w.-]+|\*)((?:\[[^\]]*\])*)$/.exec(text.trim());
+    if (!m) {
+        return null;
+    }
+    const [, at, qualifiedNamespace, localName, predicates] = m;
+    const step: LocationStep = {
+        localName,
+        namespaceUri: qualifiedNamespace,
+        position: 1,
+        attribute: at === '@',
+    };
+    for (const [, predicate] of predicates.matchAll(/\[([^\]]*)\]/g)) {
+        const position = /^\s*(\d+)\s*$/.exec(predicate);
+        const namespace = /^\s*namespace-uri\(\)\s*=\s*['"]([^'"]*)['"]\s*$/.exec(predicate);
+        if (position) {
+            step.position = parseInt(position[1], 10);
+        } else if (namespace) {
+            step.namespaceUri = namespace[1];
+        }
+    }
+    return step;
+}
+
+function matches(element: XmlElement, step: LocationStep): boolean {
+    return (step.localName === '*' || element.localName === step.localName)
+        && (step.namespaceUri === undefined || element.namespaceUri === step.namespaceUri);
+}
+
+/**
+ * Follows an absolute location path as written by Schematron and Saxon
+ * (e.g. /*:Invoice[1]/*:InvoiceLine[3]/*:Item[1]/@schemeID) through a parsed
+ * document. Prefixes are matched by local name only, since the paths are
+ * printed with prefixes of the validator's choosing. Returns undefined when
+ * not even the root matches.
+ */
+export function resolveXPath(root: XmlElement, xpath: string): XPathLocation | undefined {
+    const steps = splitLocationPath(xpath);
+    if (steps.length === 0) {
+        return undefined;
+    }
+    const first = parseStep(steps[0]);
+    if (!first || first.attribute || !matches(root, first)) {
+        return undefined;
+    }
+
+    let element = root;
+    for (const text of steps.slice(1)) {
+        const step = parseStep(text);
+        if (!step) {
+            return { element, exact: false };
+        }
+        if (step.attribute) {
+            const found = [...element.attributes.keys()].find(name =>
+                step.localName === '*' || name === step.localName || name.endsWith(`:${step.localName}`)
+            );
+            return found ? { element, exact: true, attribute: found } : { element, exact: false };
+        }
+        const child = childElements(element).filter(c => matches(c, step))[step.position - 1];
+        if (!child) {
+            return { element, exact: false };
+        }
+        element = child;
+    }
+    return { element, exact: true };
+}
+
+/**
+ * The source span to mark for an element: all of it for leaf elements
+ * (e.g. <cbc:ID>123</cbc:ID>), only the start tag for elements with children,
+ * so a problem on a group doesn't underline its whole subtree.
+ */
+export function elementHighlight(element: XmlElement): { start: XmlPosition; end: XmlPosition } {
+    const leaf = childElements(element).length === 0;
+    return { start: element.start, end: leaf ? element.end : element.startTagEnd };
+}